@@ -0,0 +1,29 @@
+// 检查脚本的最小运行器：逐项执行，打印结果，返回失败项数
+
+// 一项检查，断言失败时抛出错误
+export interface Check {
+  name: string;
+  check: () => void | Promise<void>;
+}
+
+/**
+ * 依次执行一组检查，单项失败不影响其余检查
+ * @param title 分组标题
+ * @param checks 检查列表
+ * @returns 失败的检查数
+ */
+export async function runChecks(title: string, checks: Check[]): Promise<number> {
+  console.log(`\n${title}`);
+  let failed = 0;
+  for (const { name, check } of checks) {
+    try {
+      await check();
+      console.log(`✓ ${name}`);
+    } catch (error) {
+      failed++;
+      console.error(`✗ ${name}`);
+      console.error(error);
+    }
+  }
+  return failed;
+}
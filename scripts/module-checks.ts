@@ -0,0 +1,163 @@
+// 工具模块检查：事件流解析、JSON 修复、增量 JSON 解析、树补丁、遍历顺序与限流
+import assert from "node:assert/strict";
+import type { StreamEvent, TreeNode } from "@/types";
+import { SSEParser, parseStreamEvent, readEventStream } from "@/lib/sse-client";
+import { parseJsonWithRepair } from "@/lib/json-repair";
+import { parsePartialJson } from "@/lib/partial-json";
+import { applyTreePatch, validateTreePatch } from "@/lib/tree-patch";
+import { orderPendingLeaves } from "@/lib/traversal";
+import { ProviderRateLimiter } from "@/lib/rate-limiter";
+import type { Check } from "./check";
+
+// 构造测试用的树节点
+function node(id: string, children: TreeNode[] | null = null, extra: Partial<TreeNode> = {}): TreeNode {
+  const isLeaf = !children || children.length === 0;
+  return { id, content: id, children, expanded: false, status: isLeaf ? "pending" : "completed", isLeaf, ...extra };
+}
+
+// 由多个字节块组成的流式响应
+function chunkedResponse(chunks: Uint8Array[]): Response {
+  return new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(chunk));
+      controller.close();
+    },
+  }));
+}
+
+export const moduleChecks: Check[] = [
+  {
+    name: "SSE 解析器跨数据块拼接行、合并多行 data 并沿用事件编号",
+    check: () => {
+      const parser = new SSEParser();
+      assert.deepEqual(parser.push(": comment\r\nid: 1\r\ndata: {\"a\""), []);
+      // 末尾的 \r 可能是被截断的 \r\n，等到下一个数据块才结束消息
+      assert.deepEqual(parser.push(":1}\r\n\r"), []);
+      assert.deepEqual(parser.push("\ndata: x\ndata: y\n\nid\ndata: z\n\n"), [
+        { id: "1", data: "{\"a\":1}" },
+        { id: "1", data: "x\ny" },
+        { id: "", data: "z" },
+      ]);
+    },
+  },
+  {
+    name: "流式事件按类型校验",
+    check: () => {
+      assert.deepEqual(parseStreamEvent("{\"type\":\"heartbeat\"}"), { type: "heartbeat" });
+      assert.throws(() => parseStreamEvent("{\"type\":\"progress\",\"message\":\"m\"}"), /Invalid stream event: progress/);
+      assert.throws(() => parseStreamEvent("{\"type\":\"unknown\"}"), /Invalid stream event/);
+      assert.throws(() => parseStreamEvent("not json"), SyntaxError);
+    },
+  },
+  {
+    name: "读取事件流时保留被截断的多字节字符并跳过无效事件",
+    check: async () => {
+      const bytes = new TextEncoder().encode("id: 7\ndata: {\"type\":\"error\",\"error\":\"连接失败\"}\n\ndata: {\"type\":\"bogus\"}\n\n");
+      // 在“连”字的 UTF-8 编码中间切开
+      const split = bytes.indexOf(0xe8) + 1;
+      const events: StreamEvent[] = [];
+      const ids: string[] = [];
+      const invalid: string[] = [];
+      await readEventStream(chunkedResponse([bytes.slice(0, split), bytes.slice(split)]), {
+        onEvent: event => events.push(event),
+        onEventId: id => ids.push(id),
+        onInvalid: data => invalid.push(data),
+      });
+      assert.deepEqual(events, [{ type: "error", error: "连接失败" }]);
+      assert.deepEqual(ids, ["7"]);
+      assert.deepEqual(invalid, ["{\"type\":\"bogus\"}"]);
+      await assert.rejects(readEventStream(new Response("", { status: 500 }), { onEvent: () => undefined }), /500/);
+    },
+  },
+  {
+    name: "JSON 修复去除代码块与说明文字、补全截断并移除多余逗号",
+    check: () => {
+      assert.deepEqual(parseJsonWithRepair("{\"a\":1}"), { value: { a: 1 }, repaired: false });
+      assert.deepEqual(parseJsonWithRepair("Here you go:\n```json\n{\"a\":1}\n```\nDone."), { value: { a: 1 }, repaired: true });
+      assert.deepEqual(parseJsonWithRepair("{\"root\":{\"children\":[{\"id\":\"1\",\"content\":\"A\"},{\"id\":\"2\",\"content\":\"B").value, {
+        root: { children: [{ id: "1", content: "A" }, { id: "2", content: "B" }] },
+      });
+      assert.deepEqual(parseJsonWithRepair("{\"a\":[1,2,],}").value, { a: [1, 2] });
+      assert.throws(() => parseJsonWithRepair("no json here"), /无法解析或修复/);
+    },
+  },
+  {
+    name: "增量 JSON 解析只保留已写完的部分",
+    check: () => {
+      const text = "Sure! {\"root\":{\"children\":[{\"content\":\"A\"},{\"content\":\"B";
+      assert.deepEqual(parsePartialJson(text), { root: { children: [{ content: "A" }, {}] } });
+      assert.deepEqual(parsePartialJson(text, { partialStrings: true }), { root: { children: [{ content: "A" }, { content: "B" }] } });
+      assert.deepEqual(parsePartialJson("{\"a\":1,\"b\":tr"), { a: 1 });
+      assert.equal(parsePartialJson("no json yet"), undefined);
+      assert.equal(parsePartialJson("{\"a\" 1}"), undefined);
+    },
+  },
+  {
+    name: "树补丁同步父节点的叶子标记与状态",
+    check: () => {
+      const tree = node("root", [node("root-1"), node("root-2", [node("root-2-1")])]);
+
+      const added = applyTreePatch(tree, { op: "add_child", parentId: "root-1", content: "  New  " });
+      const parent = added.children![0];
+      assert.equal(parent.isLeaf, false);
+      assert.equal(parent.status, "completed");
+      assert.deepEqual(parent.children!.map(child => [child.id, child.content, child.isLeaf]), [["root-1-1", "New", true]]);
+
+      const removed = applyTreePatch(tree, { op: "remove_node", nodeId: "root-2-1" });
+      assert.equal(removed.children![1].children, null);
+      assert.equal(removed.children![1].isLeaf, true);
+      assert.equal(removed.children![1].status, "pending");
+
+      const moved = applyTreePatch(tree, { op: "move_node", nodeId: "root-2-1", newParentId: "root-1" });
+      assert.deepEqual(moved.children!.map(child => child.children?.map(grandchild => grandchild.id) ?? null), [["root-2-1"], null]);
+
+      assert.equal(validateTreePatch(tree, { op: "remove_node", nodeId: "root" }), "The root node cannot be removed");
+      assert.throws(() => applyTreePatch(tree, { op: "move_node", nodeId: "root-2", newParentId: "root-2-1" }), /under itself/);
+      assert.throws(() => applyTreePatch(tree, { op: "update_content", nodeId: "missing", content: "x" }), /not found/);
+    },
+  },
+  {
+    name: "按遍历策略排列待处理的叶子节点",
+    check: () => {
+      const judgement = (confidence: number) => ({ canDirectlyAnswer: false, reasoning: "", confidence, model: "mock" });
+      const tree = node("root", [
+        node("a", [node("a1"), node("a2"), node("a3", null, { status: "can_answer" })], { judgement: judgement(0.9) }),
+        node("b", null, { judgement: judgement(0.5) }),
+      ]);
+      const ids = (leaves: TreeNode[]) => leaves.map(leaf => leaf.id);
+
+      assert.deepEqual(ids(orderPendingLeaves(tree, "breadth")), ["a1", "a2", "b"]);
+      assert.deepEqual(ids(orderPendingLeaves(tree, "depth")), ["a1", "a2", "b"]);
+      assert.deepEqual(ids(orderPendingLeaves(tree, "best")), ["a1", "a2", "b"]);
+      assert.deepEqual(ids(orderPendingLeaves(tree, "breadth", 1)), ["b"]);
+
+      // 置顶的分支优先于任何判断置信度
+      const pinned = { ...tree, children: [tree.children![0], { ...tree.children![1], pinned: true }] };
+      assert.deepEqual(ids(orderPendingLeaves(pinned, "best")), ["b", "a1", "a2"]);
+    },
+  },
+  {
+    name: "限流排队中的请求在取消时立即退出且不占用名额",
+    check: async () => {
+      const limiter = new ProviderRateLimiter({ maxConcurrent: 1 });
+      let releaseFirst = () => {};
+      const first = limiter.run(() => new Promise<void>(resolve => { releaseFirst = resolve; }));
+      const controller = new AbortController();
+      let queuedRan = false;
+      const queued = limiter.run(async () => { queuedRan = true; }, controller.signal);
+      controller.abort();
+      await assert.rejects(queued, { name: "AbortError" });
+      releaseFirst();
+      await first;
+      assert.equal(queuedRan, false);
+      // 取消的等待者已移出队列：下一次请求直接获得名额
+      assert.equal(await limiter.run(async () => "next"), "next");
+
+      const bucketLimiter = new ProviderRateLimiter({ requestsPerMinute: 1 });
+      await bucketLimiter.run(async () => undefined);
+      const startedAt = Date.now();
+      await assert.rejects(bucketLimiter.run(async () => undefined, AbortSignal.timeout(20)), { name: "TimeoutError" });
+      assert.ok(Date.now() - startedAt < 1000, "等待令牌时应随取消信号立即退出");
+    },
+  },
+];
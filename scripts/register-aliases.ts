@@ -0,0 +1,14 @@
+// 解析 tsconfig 中的路径别名：tsc 不改写编译输出中的 "@/..."，运行检查脚本前将其指向同一输出目录下的 src
+import Module from "node:module";
+import path from "node:path";
+
+type ResolveFilename = (this: unknown, request: string, ...rest: unknown[]) => string;
+
+const SRC_DIR = path.resolve(__dirname, "../src");
+const resolver = Module as unknown as { _resolveFilename: ResolveFilename };
+const resolveFilename = resolver._resolveFilename;
+
+resolver._resolveFilename = function (request, ...rest) {
+  const mapped = request.startsWith("@/") ? path.join(SRC_DIR, request.slice(2)) : request;
+  return resolveFilename.call(this, mapped, ...rest);
+};
@@ -0,0 +1,31 @@
+// 离线检查入口（npm test）：先检查独立的工具模块，再使用模拟提供商完整运行工作流
+// 路径别名的解析须最先注册，之后的模块才能按 "@/..." 加载
+import "./register-aliases";
+import { runChecks } from "./check";
+import { moduleChecks } from "./module-checks";
+
+// 工作流模块在加载时读取环境变量（创建默认 Agent、读取缓存配置），需在导入之前设置：
+// 默认 Agent 使用模拟提供商，关闭响应缓存，避免命中或写入本地缓存
+Object.assign(process.env, {
+  DECOMPOSITION_PROVIDER: "mock",
+  DECOMPOSITION_MODEL_ID: "mock",
+  JUDGMENT_PROVIDER: "mock",
+  JUDGMENT_MODEL_ID: "mock",
+  LLM_CACHE: "off",
+});
+
+async function main(): Promise<void> {
+  const { workflowChecks } = await import("./workflow-checks");
+  const failed = await runChecks("工具模块", moduleChecks)
+    + await runChecks("工作流（模拟提供商）", workflowChecks);
+
+  if (failed > 0) {
+    console.error(`\n${failed} 项检查失败`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
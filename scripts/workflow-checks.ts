@@ -0,0 +1,204 @@
+// 工作流检查：使用模拟提供商完整运行 WorkflowController，校验树结构、预算计数、子项数量归组与连接断开时的暂停
+// 由 test.ts 在设置模拟提供商的环境变量之后加载
+import assert from "node:assert/strict";
+import { getEventListeners } from "node:events";
+import type { TreeNode, WorkflowEvent, WorkflowOptions } from "@/types";
+import type { ChatCompletionRequest, ChatCompletionResult, LLMProvider, MockFixtures } from "@/lib/llm-providers";
+import { WorkflowController, ProblemDecomposerAgent, JudgementAgent, AnswerAgent } from "@/lib/ai-agent";
+import { MockProvider, FallbackProvider, ProviderRequestError } from "@/lib/llm-providers";
+import { ProviderRateLimiter } from "@/lib/rate-limiter";
+import { PauseGate } from "@/lib/concurrency";
+import type { Check } from "./check";
+
+// 固定的分解数据：有预设分解的节点被判断为需要分解，其余节点可直接回答
+const FIXTURES: MockFixtures = {
+  decompositions: {
+    "Launch a product": { children: ["Research the market", "Build the product"] },
+    "Research the market": { children: ["Interview customers", "Study competitors"] },
+    "Build the product": { children: ["Design the interface", "Write the code"] },
+    "Interview customers": { children: ["Prepare the questions"] },
+    "Plan a trip": { children: ["Book flights", "Book a hotel", "Rent a car", "Plan the route", "Pack the bags"] },
+  },
+};
+
+// 按内容逐层描述树的结构，叶子节点只保留内容
+type TreeShape = string | { [content: string]: TreeShape[] };
+
+function toShape(node: TreeNode): TreeShape {
+  if (!node.children?.length) return node.content;
+  return { [node.content]: node.children.map(toShape) };
+}
+
+// 请求到达提供商时的回调：可抛出错误或返回替代结果，返回 undefined 时交给模拟提供商处理
+type ProviderInterceptor = (calls: number, request: ChatCompletionRequest) => ChatCompletionResult | void;
+
+// 统计实际发出的请求次数的模拟提供商：先经过预算回调，被拒绝的请求不计入
+function createCountingProvider(intercept?: ProviderInterceptor) {
+  const counter = { calls: 0 };
+  const provider = new MockProvider({ fixtures: FIXTURES, delayMs: 0 });
+  const createChatCompletion = provider.createChatCompletion.bind(provider);
+  provider.createChatCompletion = async ({ onProviderCall, ...request }) => {
+    await onProviderCall?.();
+    counter.calls++;
+    return intercept?.(counter.calls, request) ?? createChatCompletion(request);
+  };
+  return { provider, counter };
+}
+
+// 使用指定的提供商运行一次完整流程，返回最后的 complete 事件与全部事件
+async function run(inputText: string, options: WorkflowOptions = {}, provider: LLMProvider = createCountingProvider().provider) {
+  const controller = new WorkflowController({
+    decomposerAgent: new ProblemDecomposerAgent(provider),
+    judgementAgent: new JudgementAgent(provider),
+    answerAgent: new AnswerAgent(provider),
+  });
+  const events: WorkflowEvent[] = [];
+  for await (const event of controller.executeWorkflow(inputText, undefined, options)) {
+    events.push(event);
+  }
+
+  const last = events[events.length - 1];
+  assert.equal(last?.type, "complete", `运行应以 complete 事件结束，实际为 ${last?.type === "error" ? `error: ${last.error}` : last?.type}`);
+  return { complete: last as Extract<WorkflowEvent, { type: "complete" }>, events };
+}
+
+// 按预算只够完成根节点分解（两次请求）运行：多出的一次请求须计入预算，之后的判断不再发起
+async function runWithTwoCallBudget(inputText: string, intercept: ProviderInterceptor, options: WorkflowOptions = {}) {
+  const { provider, counter } = createCountingProvider(intercept);
+  const { complete } = await run(inputText, { ...options, budget: { maxLLMCalls: 2 } }, provider);
+  assert.equal(complete.limitReached, "max_llm_calls");
+  assert.equal(counter.calls, 2, "向提供商发起的请求次数不应超过预算");
+  return complete;
+}
+
+export const workflowChecks: Check[] = [
+  {
+    name: "按数据文件分解出完整的树",
+    check: async () => {
+      const { complete } = await run("Launch a product");
+      assert.equal(complete.limitReached, null);
+      assert.deepEqual(toShape(complete.finalTree), {
+        "Launch a product": [
+          { "Research the market": [{ "Interview customers": ["Prepare the questions"] }, "Study competitors"] },
+          { "Build the product": ["Design the interface", "Write the code"] },
+        ],
+      });
+    },
+  },
+  {
+    name: "调用次数达到上限时停止运行",
+    check: async () => {
+      const { provider, counter } = createCountingProvider();
+      const { complete } = await run("Launch a product", { budget: { maxLLMCalls: 3 } }, provider);
+      assert.equal(complete.limitReached, "max_llm_calls");
+      assert.equal(counter.calls, 3, "向提供商发起的请求次数不应超过预算");
+      assert.equal(complete.state.usage.calls, 3);
+    },
+  },
+  {
+    name: "子项超出上限且策略为 regroup 时归组",
+    check: async () => {
+      const { provider, counter } = createCountingProvider();
+      const { complete } = await run("Plan a trip", { childLimits: { max: 2, overflow: "regroup" } }, provider);
+      const root = complete.finalTree;
+      assert.equal(root.decomposition?.regrouped, true);
+      assert.equal(root.children?.length, 2);
+      assert.deepEqual(root.children?.map(group => group.children?.map(child => child.content)), [
+        ["Book flights", "Book a hotel", "Rent a car"],
+        ["Plan the route", "Pack the bags"],
+      ]);
+      // 直接归组不再重问：根节点分解一次，五个叶子节点各判断一次
+      assert.equal(counter.calls, 6);
+    },
+  },
+  {
+    name: "子项数量重问计入调用预算",
+    check: async () => {
+      const complete = await runWithTwoCallBudget("Plan a trip", () => undefined, { childLimits: { max: 2 } });
+      // 重问后仍超出上限，归组
+      assert.equal(complete.finalTree.decomposition?.regrouped, true);
+      assert.equal(complete.finalTree.children?.length, 2);
+    },
+  },
+  {
+    name: "JSON 无效时的重问计入调用预算",
+    check: async () => {
+      const complete = await runWithTwoCallBudget("Launch a product", calls => {
+        if (calls === 1) return { content: "Not JSON at all", provider: "mock", model: "mock" };
+      });
+      assert.equal(complete.finalTree.children?.length, 2);
+    },
+  },
+  {
+    name: "瞬时错误的重试计入调用预算",
+    check: async () => {
+      const complete = await runWithTwoCallBudget("Launch a product", calls => {
+        if (calls === 1) throw new ProviderRequestError("Service unavailable", 503);
+      });
+      assert.equal(complete.finalTree.children?.length, 2);
+    },
+  },
+  {
+    name: "故障转移的每一次尝试都计入调用预算",
+    check: async () => {
+      let primaryCalls = 0;
+      const primary: LLMProvider = {
+        name: "primary",
+        model: "unavailable",
+        createChatCompletion: async () => {
+          primaryCalls++;
+          throw new ProviderRequestError("Service unavailable", 503);
+        },
+      };
+      const { provider: backup, counter } = createCountingProvider();
+      const provider = new FallbackProvider([
+        { provider: primary, limiter: new ProviderRateLimiter() },
+        { provider: backup, limiter: new ProviderRateLimiter() },
+      ]);
+
+      const { complete } = await run("Launch a product", {}, provider);
+      assert.equal(complete.limitReached, null);
+      assert.equal(primaryCalls, counter.calls, "每次请求都应先尝试首选提供商");
+
+      // 首选与备用提供商的尝试合计不超过预算
+      primaryCalls = 0;
+      counter.calls = 0;
+      const limited = await run("Launch a product", { budget: { maxLLMCalls: 4 } }, provider);
+      assert.equal(limited.complete.limitReached, "max_llm_calls");
+      assert.equal(primaryCalls + counter.calls, 4);
+    },
+  },
+  {
+    name: "运行结束后移除请求信号与超时信号上的监听器",
+    check: async () => {
+      const controller = new AbortController();
+      await run("Launch a product", { signal: controller.signal, budget: { timeoutMs: 60000 } });
+      assert.equal(getEventListeners(controller.signal, "abort").length, 0);
+    },
+  },
+  {
+    name: "连接断开期间不发起新的请求，续连后继续",
+    check: async () => {
+      const requestGate = new PauseGate();
+      let callsWhilePaused = 0;
+      let paused = false;
+      const { provider } = createCountingProvider(calls => {
+        if (paused) callsWhilePaused++;
+        // 第一次请求之后模拟连接断开
+        if (calls === 1) {
+          paused = true;
+          requestGate.pause();
+        }
+      });
+      const completed = run("Launch a product", { requestGate }, provider);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      assert.equal(callsWhilePaused, 0, "暂停期间不应发起新的请求");
+      paused = false;
+      requestGate.resume();
+
+      const { complete } = await completed;
+      assert.equal(complete.limitReached, null);
+      assert.equal(complete.finalTree.children?.length, 2);
+    },
+  },
+];
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { answerAgent } from '@/lib/ai-agent';
+import { DEFAULT_MODE_ID, resolveMode } from '@/lib/modes';
+import { findNodePath } from '@/lib/tree-status';
+import { DecomposeMode, TreeNode, DecomposeModeDefinition, OutputLanguage, NodeAnswer } from '@/types';
+
+interface AnswerRequest {
+  tree: TreeNode; // 完整的树，用于获取节点的祖先路径
+  nodeId: string; // 需要解答的叶子节点ID
+  mode?: DecomposeMode;
+  customModes?: DecomposeModeDefinition[]; // 可选：自定义模式定义（使用自定义模式时由客户端携带）
+  language?: OutputLanguage; // 可选：解答的输出语言，默认英文
+  bypassCache?: boolean; // 可选：跳过响应缓存，重新请求模型
+}
+
+/**
+ * 为树中的一个叶子节点生成解答，以祖先路径作为上下文
+ * @param request 包含完整树与节点ID的请求
+ */
+export async function POST(request: Request) {
+  try {
+    const body: AnswerRequest = await request.json();
+    const { tree, nodeId, mode: modeId = DEFAULT_MODE_ID, customModes, language, bypassCache } = body;
+
+    if (!tree || typeof tree.id !== 'string' || typeof tree.content !== 'string' || !nodeId) {
+      return NextResponse.json({ error: 'A valid tree and nodeId are required' }, { status: 400 });
+    }
+
+    const path = findNodePath(tree, nodeId);
+    const node = path[path.length - 1];
+    if (!node) {
+      return NextResponse.json({ error: `Node ${nodeId} not found` }, { status: 404 });
+    }
+    if (node.children && node.children.length > 0) {
+      return NextResponse.json({ error: 'Only leaf nodes can be answered' }, { status: 400 });
+    }
+
+    let mode;
+    try {
+      mode = resolveMode(modeId, customModes, language);
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid mode' }, { status: 400 });
+    }
+
+    console.log(`开始解答节点: ${nodeId}, 原始输入: "${tree.content}", 模式: ${mode.id}, 语言: ${mode.language}`);
+
+    const response = await answerAgent.answerNode(
+      node.content,
+      tree.content,
+      path.slice(0, -1).map(ancestor => ancestor.content),
+      mode,
+      { bypassCache, signal: request.signal }
+    );
+    const answer: NodeAnswer = {
+      content: response.answer,
+      model: response.model ?? 'unknown',
+      provider: response.servedBy?.provider,
+      language: mode.language
+    };
+    return NextResponse.json({ answer, usage: response.usage, cached: response.cached });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json({
+      error: '生成解答时发生错误，请稍后重试'
+    }, { status: 500 });
+  }
+}
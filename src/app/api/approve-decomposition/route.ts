@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { workflowController } from '@/lib/ai-agent';
+import { ApprovalAction } from '@/types';
+
+interface ApproveRequest {
+  runId?: string; // 等待审批的运行ID（由流式分解的 start 事件返回）
+  nodeId?: string; // 等待审批的节点ID（由 approval_required 事件返回）
+  action?: ApprovalAction;
+  children?: string[]; // action 为 edit 时编辑后的子项内容
+}
+
+const APPROVAL_ACTIONS: ApprovalAction[] = ['accept', 'edit', 'reject', 'regenerate'];
+
+export async function POST(request: Request) {
+  try {
+    const body: ApproveRequest = await request.json().catch(() => ({}));
+    const { runId, nodeId, action, children } = body;
+
+    if (!runId || !nodeId) {
+      return NextResponse.json({ error: 'runId and nodeId are required' }, { status: 400 });
+    }
+    if (!action || !APPROVAL_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: `action must be one of ${APPROVAL_ACTIONS.join(', ')}` }, { status: 400 });
+    }
+    if (action === 'edit' && (!Array.isArray(children) || children.some(child => typeof child !== 'string'))) {
+      return NextResponse.json({ error: 'children must be an array of strings when editing' }, { status: 400 });
+    }
+
+    console.log(`收到分解审批: ${runId}/${nodeId} ${action}`);
+
+    const resolved = workflowController.resolveApproval(runId, nodeId, { action, children });
+
+    if (!resolved) {
+      return NextResponse.json({
+        error: '未找到等待审批的节点，运行可能已经结束',
+        runId,
+        nodeId
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, runId, nodeId, action });
+
+  } catch (error) {
+    console.error('提交分解审批失败:', error);
+    return NextResponse.json({
+      error: '提交分解审批失败',
+      details: error instanceof Error ? error.message : '未知错误'
+    }, { status: 500 });
+  }
+}
@@ -1,189 +1,43 @@
 import { NextResponse } from 'next/server';
 import { workflowController } from '@/lib/ai-agent';
-import { DecomposeMode } from '@/types';
+import { DEFAULT_MODE_ID } from '@/lib/modes';
+import { createWorkflowStreamResponse } from '@/lib/workflow-stream';
+import { PauseGate } from '@/lib/concurrency';
+import { DecomposeMode, WorkflowBudget, DecomposeModeDefinition, OutputLanguage, TraversalStrategy, ChildCountLimits } from '@/types';
 
 interface DecomposeRequest {
   text: string;
   mode?: DecomposeMode; // 新增：分解模式参数
+  concurrency?: number; // 可选：叶子节点并发处理上限
+  budget?: WorkflowBudget; // 可选：运行预算（最大深度、节点数、调用次数、超时）
+  customModes?: DecomposeModeDefinition[]; // 可选：自定义模式定义（使用自定义模式时由客户端携带）
+  language?: OutputLanguage; // 可选：节点内容的输出语言，默认英文
+  answerLeaves?: boolean; // 可选：分解完成后为可直接回答的叶子节点生成解答
+  bypassCache?: boolean; // 可选：跳过响应缓存，重新请求模型
+  strategy?: TraversalStrategy; // 可选：叶子节点的遍历策略，默认广度优先
+  childLimits?: ChildCountLimits; // 可选：每次分解的子项数量限制，可按深度单独设置
+  approvalMode?: boolean; // 可选：每次分解后暂停，等待通过 /api/approve-decomposition 审批
 }
 
 export async function POST(request: Request) {
   try {
     const body: DecomposeRequest = await request.json();
-    const { text, mode = 'concept' } = body; // 默认为概念模式
+    const { text, mode = DEFAULT_MODE_ID, concurrency, budget, customModes, language, answerLeaves, bypassCache, strategy, childLimits, approvalMode } = body; // 默认为概念模式
 
     if (!text) {
       return NextResponse.json({ error: 'Text is required' }, { status: 400 });
     }
 
-    // 创建可读流
-    const encoder = new TextEncoder();
-    const stream = new ReadableStream({
-      async start(controller) {
-        let isStreamClosed = false;
-        let isClosing = false;
-        
-        const safeClose = () => {
-          if (!isStreamClosed && !isClosing) {
-            isClosing = true;
-            try {
-              controller.close();
-              isStreamClosed = true;
-            } catch (error) {
-              // 忽略控制器已关闭的错误
-              isStreamClosed = true;
-              if (error instanceof Error && !error.message.includes('Controller is already closed')) {
-                console.error('关闭流控制器时出错:', error);
-              }
-            }
-          }
-        };
+    console.log(`开始流式工作流: "${text}", 模式: ${mode}, 语言: ${language ?? '默认'}`);
 
-        const safeEnqueue = (data: Uint8Array) => {
-          if (!isStreamClosed && !isClosing) {
-            try {
-              controller.enqueue(data);
-            } catch (error) {
-              // 如果控制器已经关闭，标记状态并忽略错误
-              if (error instanceof Error && error.message.includes('Controller is already closed')) {
-                isStreamClosed = true;
-                isClosing = true;
-              } else {
-                throw error;
-              }
-            }
-          }
-        };
-
-        try {
-          console.log(`开始流式工作流: "${text}", 模式: ${mode}`);
-
-          // 执行工作流并流式返回事件，传递分解模式
-          for await (const event of workflowController.executeWorkflow(text, mode)) {
-            // 如果流已关闭或正在关闭，停止处理
-            if (isStreamClosed || isClosing) {
-              break;
-            }
-
-            // 根据不同的事件类型发送不同的数据格式
-            let streamData;
-            
-            switch (event.type) {
-              case 'start':
-                streamData = {
-                  type: 'start',
-                  message: event.message,
-                  progress: 0,
-                  mode: mode // 返回当前分解模式
-                };
-                break;
-                
-              case 'decompose_node':
-                streamData = {
-                  type: 'progress',
-                  message: event.message,
-                  progress: Math.round((event.state.processedNodes / event.state.totalNodes) * 100)
-                };
-                break;
-                
-              case 'judge_node':
-                streamData = {
-                  type: 'progress',
-                  message: event.message,
-                  nodeId: event.nodeId,
-                  judgementResult: event.result,
-                  progress: Math.round((event.state.processedNodes / event.state.totalNodes) * 100)
-                };
-                break;
-                
-              case 'update_tree':
-                streamData = {
-                  type: 'update',
-                  treeData: event.tree,
-                  message: event.message,
-                  progress: Math.round((event.state.processedNodes / event.state.totalNodes) * 100)
-                };
-                break;
-                
-              case 'progress':
-                streamData = {
-                  type: 'progress',
-                  message: event.message,
-                  progress: event.progress
-                };
-                break;
-                
-              case 'complete':
-                streamData = {
-                  type: 'complete',
-                  treeData: event.finalTree,
-                  message: event.message,
-                  progress: 100,
-                  state: event.state
-                };
-                break;
-
-              case 'terminated':
-                streamData = {
-                  type: 'terminated',
-                  treeData: event.finalTree,
-                  message: event.message,
-                  progress: Math.round((event.state.processedNodes / event.state.totalNodes) * 100),
-                  state: event.state
-                };
-                break;
-                
-              case 'error':
-                streamData = {
-                  type: 'error',
-                  error: event.error
-                };
-                break;
-                
-              default:
-                continue; // 跳过未知事件类型
-            }
-
-            // 发送事件数据
-            safeEnqueue(encoder.encode(`data: ${JSON.stringify(streamData)}\n\n`));
-
-            // 如果是完成、终止或错误事件，结束流
-            if (event.type === 'complete' || event.type === 'terminated' || event.type === 'error') {
-              safeClose();
-              return;
-            }
-          }
-
-          // 如果循环正常结束但没有发送完成事件，关闭流
-          safeClose();
-
-        } catch (error) {
-          console.error('流式工作流出错:', error);
-          
-          // 发送错误事件
-          if (!isStreamClosed && !isClosing) {
-            safeEnqueue(encoder.encode(`data: ${JSON.stringify({
-              type: 'error',
-              error: error instanceof Error ? error.message : '工作流执行过程中发生错误'
-            })}\n\n`));
-          }
-          
-          safeClose();
-        }
-      }
-    });
-
-    // 返回流式响应
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'POST',
-        'Access-Control-Allow-Headers': 'Content-Type',
-      },
-    });
+    // 执行工作流并流式返回事件，传递分解模式
+    // 连接断开时暂停发起新的模型请求并保留运行以便续连，超过宽限期仍未续连才中止；用户主动终止经 /api/terminate-decomposition 立即中止
+    const abortController = new AbortController();
+    const requestGate = new PauseGate();
+    return createWorkflowStreamResponse(
+      workflowController.executeWorkflow(text, mode, { concurrency, budget, customModes, language, answerLeaves, bypassCache, strategy, childLimits, approvalMode, signal: abortController.signal, requestGate }),
+      { mode, abortController, requestGate, signal: request.signal }
+    );
 
   } catch (error) {
     console.error('API Error:', error);
@@ -191,4 +45,4 @@ export async function POST(request: Request) {
       error: '处理请求时发生错误，请稍后重试' 
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
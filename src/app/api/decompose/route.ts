@@ -1,11 +1,20 @@
 import { NextResponse } from 'next/server';
 import { workflowController } from '@/lib/ai-agent';
-import { TreeNode, DecomposeMode } from '@/types';
+import { DEFAULT_MODE_ID } from '@/lib/modes';
+import { TreeNode, DecomposeMode, WorkflowBudget, BudgetLimit, DecomposeModeDefinition, OutputLanguage, TraversalStrategy, ChildCountLimits } from '@/types';
 
 // 定义预期的请求体结构
 interface DecomposeRequest {
   text: string;
   mode?: DecomposeMode; // 新增：分解模式参数
+  concurrency?: number; // 可选：叶子节点并发处理上限
+  budget?: WorkflowBudget; // 可选：运行预算（最大深度、节点数、调用次数、超时）
+  customModes?: DecomposeModeDefinition[]; // 可选：自定义模式定义（使用自定义模式时由客户端携带）
+  language?: OutputLanguage; // 可选：节点内容的输出语言，默认英文
+  answerLeaves?: boolean; // 可选：分解完成后为可直接回答的叶子节点生成解答
+  bypassCache?: boolean; // 可选：跳过响应缓存，重新请求模型
+  strategy?: TraversalStrategy; // 可选：叶子节点的遍历策略，默认广度优先
+  childLimits?: ChildCountLimits; // 可选：每次分解的子项数量限制，可按深度单独设置
   nodeId?: string; // 用于重新分解特定节点
   parentContext?: string; // 父级上下文
 }
@@ -17,22 +26,26 @@ interface DecomposeRequest {
 export async function POST(request: Request) {
   try {
     const body: DecomposeRequest = await request.json();
-    const { text, mode = 'concept', nodeId } = body;
+    const { text, mode = DEFAULT_MODE_ID, nodeId, concurrency, budget, customModes, language, answerLeaves, bypassCache, strategy, childLimits } = body;
 
     if (!text) {
       return NextResponse.json({ error: 'Text is required' }, { status: 400 });
     }
 
-    console.log(`开始执行工作流: "${text}", 模式: ${mode}`, nodeId ? `节点ID: ${nodeId}` : '');
+    console.log(`开始执行工作流: "${text}", 模式: ${mode}, 语言: ${language ?? '默认'}`, nodeId ? `节点ID: ${nodeId}` : '');
 
     // 执行完整的工作流，收集所有事件直到完成
     let finalResult: TreeNode | null = null;
+    let limitReached: BudgetLimit | null = null;
+    let cacheHits = 0;
     
-    for await (const event of workflowController.executeWorkflow(text, mode)) {
+    for await (const event of workflowController.executeWorkflow(text, mode, { concurrency, budget, customModes, language, answerLeaves, bypassCache, strategy, childLimits, signal: request.signal })) {
       console.log(`工作流事件: ${event.type}`, event.type === 'error' ? event.error : event.message);
       
       if (event.type === 'complete') {
         finalResult = event.finalTree;
+        limitReached = event.limitReached;
+        cacheHits = event.state.cacheHits;
         break;
       } else if (event.type === 'error') {
         throw new Error(event.error);
@@ -44,7 +57,7 @@ export async function POST(request: Request) {
     }
 
     // 返回结构化数据
-    return NextResponse.json({ root: finalResult, mode });
+    return NextResponse.json({ root: finalResult, mode, limitReached, cacheHits });
 
   } catch (error) {
     console.error('API Error:', error);
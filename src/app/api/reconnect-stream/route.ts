@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { createRunStreamResponse, getRunStream } from '@/lib/run-stream';
+
+// 续连断开的流式运行：GET ?runId=...，请求头 Last-Event-ID（或查询参数 lastEventId）为已收到的最后一个事件编号
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const runId = url.searchParams.get('runId');
+    const lastEventId = Number(request.headers.get('Last-Event-ID') ?? url.searchParams.get('lastEventId')) || 0;
+
+    if (!runId) {
+      return NextResponse.json({ error: 'runId is required' }, { status: 400 });
+    }
+
+    const run = getRunStream(runId);
+    if (!run) {
+      return NextResponse.json({
+        error: '未找到对应的运行事件流，运行可能已经结束或缓存已过期',
+        runId
+      }, { status: 404 });
+    }
+
+    console.log(`续连流式运行: ${runId}, 从事件 ${lastEventId} 之后开始`);
+
+    return createRunStreamResponse(run, lastEventId, request.signal);
+
+  } catch (error) {
+    console.error('续连流式运行失败:', error);
+    return NextResponse.json({
+      error: '续连流式运行失败',
+      details: error instanceof Error ? error.message : '未知错误'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { workflowController } from '@/lib/ai-agent';
+import { DEFAULT_MODE_ID } from '@/lib/modes';
+import { createWorkflowStreamResponse } from '@/lib/workflow-stream';
+import { PauseGate } from '@/lib/concurrency';
+import { findNodeInTree } from '@/lib/tree-status';
+import { DecomposeMode, TreeNode, WorkflowBudget, DecomposeModeDefinition, OutputLanguage, TraversalStrategy, ChildCountLimits } from '@/types';
+
+interface RedecomposeRequest {
+  tree: TreeNode; // 完整的树，提供原始输入与祖先上下文
+  nodeId: string; // 需要重新分解的节点
+  mode?: DecomposeMode;
+  concurrency?: number; // 可选：叶子节点并发处理上限
+  budget?: WorkflowBudget; // 可选：本次重新分解的运行预算
+  customModes?: DecomposeModeDefinition[]; // 可选：自定义模式定义（使用自定义模式时由客户端携带）
+  language?: OutputLanguage; // 可选：节点内容的输出语言，默认英文
+  answerLeaves?: boolean; // 可选：分解完成后为可直接回答的叶子节点生成解答
+  bypassCache?: boolean; // 可选：跳过响应缓存，重新请求模型
+  strategy?: TraversalStrategy; // 可选：叶子节点的遍历策略，默认广度优先
+  childLimits?: ChildCountLimits; // 可选：每次分解的子项数量限制，可按深度单独设置
+  approvalMode?: boolean; // 可选：每次分解后暂停，等待通过 /api/approve-decomposition 审批
+}
+
+/**
+ * 在完整树的上下文中重新分解指定节点，流式返回该节点的子树
+ * @param request 包含完整树与目标节点ID的请求
+ */
+export async function POST(request: Request) {
+  try {
+    const body: RedecomposeRequest = await request.json();
+    const { tree, nodeId, mode = DEFAULT_MODE_ID, concurrency, budget, customModes, language, answerLeaves, bypassCache, strategy, childLimits, approvalMode } = body;
+
+    if (!tree || typeof tree.id !== 'string' || typeof tree.content !== 'string') {
+      return NextResponse.json({ error: 'A valid tree is required' }, { status: 400 });
+    }
+    if (!nodeId || !findNodeInTree(tree, nodeId)) {
+      return NextResponse.json({ error: 'Node not found in tree' }, { status: 400 });
+    }
+
+    console.log(`开始重新分解节点: ${nodeId}, 原始输入: "${tree.content}", 模式: ${mode}, 语言: ${language ?? '默认'}`);
+
+    // 连接断开时暂停发起新的模型请求并保留运行以便续连，超过宽限期仍未续连才中止；用户主动终止经 /api/terminate-decomposition 立即中止
+    const abortController = new AbortController();
+    const requestGate = new PauseGate();
+    return createWorkflowStreamResponse(
+      workflowController.redecomposeNode(tree, nodeId, mode, { concurrency, budget, customModes, language, answerLeaves, bypassCache, strategy, childLimits, approvalMode, signal: abortController.signal, requestGate }),
+      { mode, scopeNodeId: nodeId, abortController, requestGate, signal: request.signal }
+    );
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json({ 
+      error: '处理请求时发生错误，请稍后重试' 
+    }, { status: 500 });
+  }
+}
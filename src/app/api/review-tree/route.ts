@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { criticAgent } from '@/lib/ai-agent';
+import { DEFAULT_MODE_ID, resolveMode } from '@/lib/modes';
+import { DecomposeMode, TreeNode, DecomposeModeDefinition, OutputLanguage } from '@/types';
+
+interface ReviewRequest {
+  tree: TreeNode; // 待审阅的完整树
+  mode?: DecomposeMode;
+  customModes?: DecomposeModeDefinition[]; // 可选：自定义模式定义（使用自定义模式时由客户端携带）
+  language?: OutputLanguage; // 可选：审阅说明的输出语言，默认英文
+  bypassCache?: boolean; // 可选：跳过响应缓存，重新请求模型
+}
+
+/**
+ * 审阅整棵树，返回发现的问题与建议的补丁
+ * @param request 包含完整树的请求
+ */
+export async function POST(request: Request) {
+  try {
+    const body: ReviewRequest = await request.json();
+    const { tree, mode: modeId = DEFAULT_MODE_ID, customModes, language, bypassCache } = body;
+
+    if (!tree || typeof tree.id !== 'string' || typeof tree.content !== 'string') {
+      return NextResponse.json({ error: 'A valid tree is required' }, { status: 400 });
+    }
+
+    let mode;
+    try {
+      mode = resolveMode(modeId, customModes, language);
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid mode' }, { status: 400 });
+    }
+
+    console.log(`开始审阅树: "${tree.content}", 模式: ${mode.id}, 语言: ${mode.language}`);
+
+    const review = await criticAgent.reviewTree(tree, mode, { bypassCache, signal: request.signal });
+    return NextResponse.json({ review });
+
+  } catch (error) {
+    console.error('API Error:', error);
+    return NextResponse.json({ 
+      error: '审阅时发生错误，请稍后重试' 
+    }, { status: 500 });
+  }
+}
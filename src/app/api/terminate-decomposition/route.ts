@@ -1,15 +1,39 @@
 import { NextResponse } from 'next/server';
 import { workflowController } from '@/lib/ai-agent';
 
-export async function POST() {
+interface TerminateRequest {
+  runId?: string; // 需要终止的运行ID（由 decompose-stream 的 start 事件返回）
+}
+
+/**
+ * 终止指定运行，立即中止其进行中的模型请求
+ * 流式接口的连接断开时服务端无法区分用户主动取消与网络中断：断开后不再发起新的请求并开始续连宽限期，
+ * 但已发出的请求会继续完成并计费；用户主动终止时客户端调用本接口，跳过宽限期并中止进行中的请求
+ */
+export async function POST(request: Request) {
   try {
-    console.log('收到终止分解请求');
-    
-    // 调用工作流控制器的终止方法
-    workflowController.terminateDecomposition();
-    
+    const body: TerminateRequest = await request.json().catch(() => ({}));
+    const { runId } = body;
+
+    if (!runId) {
+      return NextResponse.json({ error: 'runId is required' }, { status: 400 });
+    }
+
+    console.log(`收到终止分解请求: ${runId}`);
+
+    // 只终止指定的运行，不影响其他用户的分解
+    const terminated = workflowController.terminateDecomposition(runId);
+
+    if (!terminated) {
+      return NextResponse.json({
+        error: '未找到对应的分解运行，可能已经结束',
+        runId
+      }, { status: 404 });
+    }
+
     return NextResponse.json({ 
       success: true, 
+      runId,
       message: '分解过程终止请求已发送' 
     });
     
@@ -20,4 +44,4 @@ export async function POST() {
       details: error instanceof Error ? error.message : '未知错误'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -23,24 +23,20 @@ import { Sidebar } from "@/components/layout/Sidebar";
 import { Canvas } from "@/components/layout/Canvas";
 import CustomNode from "@/components/flow/CustomNode";
 import { NodeEditor } from "@/components/flow/NodeEditor";
+import { ReviewPanel } from "@/components/flow/ReviewPanel";
+import { ApprovalPanel } from "@/components/flow/ApprovalPanel";
 import CanvasToolbar from "@/components/layout/CanvasToolbar";
 import { Toast } from "@/components/ui/Toast";
 import { ProgressBar } from "@/components/ui/ProgressBar";
 import { DecomposeInput } from "@/components/ui/DecomposeInput";
 import { useFlowStore } from "@/store/useFlowStore";
-import { exportFlowToPNG, exportFlowToSVG } from "@/lib/utils";
-import { FlowNode, TreeNode, DecomposeMode } from "@/types";
+import { exportFlowToPNG, exportFlowToSVG, exportTreeToMarkdown } from "@/lib/utils";
+import { hasResumableLeaves } from "@/lib/tree-status";
+import { FlowNode, TreeNode, DecomposeMode, OutputLanguage, WorkflowOptions } from "@/types";
 import { useHistoryStorage } from "@/hooks/useHistoryStorage";
-import {
-  CheckSquare,
-  CalendarCheck,
-  ListChecks,
-  Rocket,
-  Brain,
-  BookOpen,
-  Lightbulb,
-  FlaskConical,
-} from "lucide-react";
+import { ModeIcon } from "@/components/ui/ModeIcon";
+import { DEFAULT_MODE_ID, findMode } from "@/lib/modes";
+import { useModeStore } from "@/store/useModeStore";
 
 const nodeTypes = {
   custom: CustomNode,
@@ -69,6 +65,7 @@ function HomeContent() {
     (state) => state.decomposingProgress,
   );
   const decomposingMessage = useFlowStore((state) => state.decomposingMessage);
+  const decomposingUsage = useFlowStore((state) => state.decomposingUsage);
   const setTreeData = useFlowStore((state) => state.setTreeData);
   const setSelectedNode = useFlowStore((state) => state.setSelectedNode);
   const terminateDecomposition = useFlowStore(
@@ -77,7 +74,14 @@ function HomeContent() {
   const startStreamDecomposition = useFlowStore(
     (state) => state.startStreamDecomposition,
   );
+  const resumeDecomposition = useFlowStore(
+    (state) => state.resumeDecomposition,
+  );
   const setStoreDecomposeMode = useFlowStore((state) => state.setDecomposeMode);
+  const outputLanguage = useFlowStore((state) => state.outputLanguage);
+  const reviewTree = useFlowStore((state) => state.reviewTree);
+  const isReviewing = useFlowStore((state) => state.isReviewing);
+  const setOutputLanguage = useFlowStore((state) => state.setOutputLanguage);
   const resetState = useFlowStore((state) => state.resetState);
   const setNodeWidths = useFlowStore((state) => state.setNodeWidths);
   const { clearCurrentSession, autoSaveHistory } = useHistoryStorage();
@@ -85,7 +89,9 @@ function HomeContent() {
   const [flowNodes, setFlowNodes, onNodesChange] = useNodesState([]);
   const [flowEdges, setFlowEdges, onEdgesChange] = useEdgesState([]);
   const [rf, setRf] = useState<ReactFlowInstance | null>(null);
-  const [currentMode, setCurrentMode] = useState<DecomposeMode>("concept");
+  const [currentMode, setCurrentMode] = useState<DecomposeMode>(DEFAULT_MODE_ID);
+  const customModes = useModeStore((state) => state.customModes);
+  const loadCustomModes = useModeStore((state) => state.loadCustomModes);
   const [examplePreset, setExamplePreset] = useState<string | undefined>(
     undefined,
   );
@@ -141,19 +147,13 @@ function HomeContent() {
     return result;
   }, [activeNodeId, flowEdges, flowNodes, treeData]);
 
-  // 首页示例（胶囊）
-  const taskExamples = [
-    { Icon: CheckSquare, text: "Start a company" },
-    { Icon: CalendarCheck, text: "Begin triathlon" },
-    { Icon: ListChecks, text: "Build a Astro Blog" },
-    { Icon: Rocket, text: "Ship a marketing campaign in 2 weeks" },
-  ];
-  const conceptExamples = [
-    { Icon: Brain, text: "Human nervous system" },
-    { Icon: BookOpen, text: "Modern and contemporary literature" },
-    { Icon: Lightbulb, text: "Ethereum ecosystem" },
-    { Icon: FlaskConical, text: "Basic RAG application" },
-  ];
+  // 首页示例（胶囊）：来自当前模式的定义
+  const currentModeDefinition = findMode(currentMode, customModes);
+
+  // 加载本地保存的自定义模式
+  useEffect(() => {
+    loadCustomModes();
+  }, [loadCustomModes]);
 
   useEffect(() => {
     if (!initialized && !treeData && !isDecomposing) {
@@ -264,6 +264,7 @@ function HomeContent() {
   const handleNewFlowSubmit = async (
     inputText: string,
     decomposeMode: DecomposeMode,
+    options: WorkflowOptions,
   ) => {
     setHomeIsLoading(true);
     setHomeError(null);
@@ -282,7 +283,7 @@ function HomeContent() {
       };
       setTreeData(rootNode);
       setStoreDecomposeMode(decomposeMode);
-      startStreamDecomposition(inputText, decomposeMode);
+      startStreamDecomposition(inputText, decomposeMode, options);
     } catch (error: unknown) {
       console.error("分解失败:", error);
       setHomeError(error instanceof Error ? error.message : "发生未知错误");
@@ -291,6 +292,40 @@ function HomeContent() {
     }
   };
 
+  // 修改当前项目的输出语言并保存到历史记录
+  const handleOutputLanguageChange = (language: OutputLanguage) => {
+    setOutputLanguage(language);
+    useFlowStore.getState().autoSaveCallback?.();
+  };
+
+  const handleReviewTree = async () => {
+    try {
+      await reviewTree();
+    } catch (error: unknown) {
+      console.error("审阅失败:", error);
+      setToast({
+        message:
+          error instanceof Error ? error.message : "Review failed, please try again",
+        type: "error",
+      });
+    }
+  };
+
+  const handleContinueDecomposition = async () => {
+    try {
+      await resumeDecomposition();
+    } catch (error: unknown) {
+      console.error("继续分解失败:", error);
+      setToast({
+        message:
+          error instanceof Error
+            ? error.message
+            : "Continue decomposition failed, please try again",
+        type: "error",
+      });
+    }
+  };
+
   const handleExport = async () => {
     setIsExporting(true);
     try {
@@ -349,6 +384,33 @@ function HomeContent() {
     }
   };
 
+  const handleExportMarkdown = () => {
+    if (!treeData) return;
+    try {
+      const now = new Date();
+      const timestamp = now.toISOString().slice(0, 19).replace(/:/g, "-");
+      const safeProjectTitle = projectTitle.replace(
+        /[^a-zA-Z0-9\u4e00-\u9fa5]/g,
+        "-",
+      );
+      const filename = `${safeProjectTitle}-${timestamp}.md`;
+      exportTreeToMarkdown(treeData, filename);
+      setToast({
+        message: "Tree successfully exported as Markdown",
+        type: "success",
+      });
+    } catch (error: unknown) {
+      console.error("Markdown导出失败:", error);
+      setToast({
+        message:
+          error instanceof Error
+            ? error.message
+            : "Markdown export failed, please try again",
+        type: "error",
+      });
+    }
+  };
+
   const isEmptyWorkspace =
     !treeData &&
     !isDecomposing &&
@@ -403,6 +465,7 @@ function HomeContent() {
                 isDecomposing={isDecomposing}
                 decomposingMessage={decomposingMessage}
                 decomposingProgress={decomposingProgress}
+                usage={decomposingUsage}
                 onTerminate={terminateDecomposition}
               />
             ) : undefined
@@ -417,7 +480,19 @@ function HomeContent() {
                 onFitView={() => rf?.fitView?.({ padding: 0.2, duration: 250 })}
                 onExportPNG={handleExport}
                 onExportSVG={handleExportSVG}
+                onExportMarkdown={handleExportMarkdown}
+                canContinue={
+                  !isDecomposing && !!treeData && hasResumableLeaves(treeData)
+                }
+                onContinue={handleContinueDecomposition}
+                outputLanguage={outputLanguage}
+                onOutputLanguageChange={handleOutputLanguageChange}
+                canReview={!isDecomposing && !!treeData?.children?.length}
+                isReviewing={isReviewing}
+                onReview={handleReviewTree}
               />
+              <ReviewPanel />
+              <ApprovalPanel />
               <ReactFlow
                 nodes={displayNodes}
                 edges={displayEdges}
@@ -478,13 +553,10 @@ function HomeContent() {
                 {/* 示例胶囊：仅显示当前模式 */}
                 <div className="max-w-[650px] mx-auto mt-2">
                   <div className="text-xs font-semibold text-gray-500 mb-2 pl-3">
-                    {currentMode === "task" ? "Task" : "Concept"}
+                    {currentModeDefinition?.label ?? currentMode}
                   </div>
                   <div className="flex flex-wrap gap-2">
-                    {(currentMode === "task"
-                      ? taskExamples
-                      : conceptExamples
-                    ).map(({ Icon, text }) => (
+                    {(currentModeDefinition?.examples ?? []).map(({ icon, text }) => (
                       <button
                         key={text}
                         type="button"
@@ -494,7 +566,7 @@ function HomeContent() {
                         }}
                         className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-white border border-gray-200 text-gray-700 hover:bg-gray-50"
                       >
-                        <Icon className="w-4 h-4 text-gray-500" />
+                        <ModeIcon name={icon ?? currentModeDefinition?.icon} className="w-4 h-4 text-gray-500" />
                         <span className="text-[14px] font-medium leading-none">
                           {text}
                         </span>
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Plus, RefreshCw, Trash2, X } from "lucide-react";
+import { useFlowStore } from "@/store/useFlowStore";
+import { findNodeInTree } from "@/lib/tree-status";
+import { ApprovalDecision, PendingApproval } from "@/types";
+
+interface ApprovalCardProps {
+  approval: PendingApproval;
+  content: string;
+  onRespond: (decision: ApprovalDecision) => Promise<void>;
+}
+
+// 单个分解结果的审批：子项可直接编辑，有改动时以编辑后的内容接受
+function ApprovalCard({ approval, content, onRespond }: ApprovalCardProps) {
+  const proposed = approval.children.map((child) => child.content);
+  const [drafts, setDrafts] = useState<string[]>(proposed);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isEdited =
+    drafts.length !== proposed.length ||
+    drafts.some((draft, index) => draft.trim() !== proposed[index]);
+
+  const respond = async (decision: ApprovalDecision) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onRespond(decision);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Approval failed");
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAccept = () =>
+    respond(isEdited ? { action: "edit", children: drafts } : { action: "accept" });
+
+  return (
+    <div className="p-4 space-y-3">
+      <div>
+        <p className="text-sm font-medium text-gray-900">{content}</p>
+        {approval.reasoning && (
+          <p className="text-xs text-gray-500 mt-1">{approval.reasoning}</p>
+        )}
+      </div>
+
+      <div className="space-y-1.5">
+        {drafts.map((draft, index) => (
+          <div key={index} className="flex items-center gap-1.5">
+            <input
+              value={draft}
+              onChange={(e) =>
+                setDrafts((prev) =>
+                  prev.map((value, i) => (i === index ? e.target.value : value)),
+                )
+              }
+              className="flex-1 h-8 rounded-lg border border-gray-200 px-2 text-[13px] text-gray-800 focus:outline-none focus:ring-1 focus:ring-gray-200"
+            />
+            <button
+              type="button"
+              onClick={() => setDrafts((prev) => prev.filter((_, i) => i !== index))}
+              className="h-7 w-7 rounded-lg text-gray-400 hover:bg-gray-100 hover:text-gray-700 flex items-center justify-center shrink-0"
+              aria-label="Remove child"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setDrafts((prev) => [...prev, ""])}
+          className="h-7 px-1 text-xs text-gray-500 hover:text-gray-800 flex items-center gap-1"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add child
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          disabled={isSubmitting}
+          onClick={() => respond({ action: "reject" })}
+          className="h-7 px-2.5 rounded-lg text-xs text-gray-600 hover:bg-gray-100 flex items-center gap-1 disabled:opacity-50"
+          title="Keep this node as a leaf"
+        >
+          <X className="w-3.5 h-3.5" />
+          Reject
+        </button>
+        <button
+          type="button"
+          disabled={isSubmitting}
+          onClick={() => respond({ action: "regenerate" })}
+          className="h-7 px-2.5 rounded-lg text-xs text-gray-600 hover:bg-gray-100 flex items-center gap-1 disabled:opacity-50"
+        >
+          <RefreshCw className="w-3.5 h-3.5" />
+          Regenerate
+        </button>
+        <button
+          type="button"
+          disabled={isSubmitting}
+          onClick={handleAccept}
+          className="h-7 px-2.5 rounded-lg bg-gray-900 text-white text-xs hover:bg-gray-700 flex items-center gap-1 disabled:opacity-50"
+        >
+          <Check className="w-3.5 h-3.5" />
+          {isEdited ? "Accept edits" : "Accept"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// 审批面板：审批模式下逐个处理等待审批的分解结果，运行在审批前暂停
+export function ApprovalPanel() {
+  const { treeData, pendingApprovals, respondToApproval } = useFlowStore();
+
+  if (pendingApprovals.length === 0 || !treeData) {
+    return null;
+  }
+
+  const approval = pendingApprovals[0];
+  const content = findNodeInTree(treeData, approval.nodeId)?.content ?? approval.nodeId;
+
+  return (
+    <div className="absolute bottom-4 right-4 z-20 w-[360px] max-h-[calc(100%-2rem)] flex flex-col rounded-2xl border border-gray-200 bg-white">
+      <div className="px-4 pt-4 pb-3 border-b border-gray-100">
+        <h2 className="text-sm font-semibold text-gray-900">Review decomposition</h2>
+        <p className="text-xs text-gray-500 mt-1">
+          {pendingApprovals.length > 1
+            ? `${pendingApprovals.length} decompositions are waiting for review.`
+            : "The run continues once you decide."}
+        </p>
+      </div>
+      <div className="flex-1 overflow-y-auto">
+        {/* 重新生成后子项变化，重新挂载以重置编辑内容 */}
+        <ApprovalCard
+          key={`${approval.nodeId}:${approval.children.map((child) => child.content).join("\n")}`}
+          approval={approval}
+          content={content}
+          onRespond={(decision) => respondToApproval(approval.nodeId, decision)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,9 @@
 import { memo } from 'react'
 import { Handle, Position, NodeProps } from 'reactflow'
-import { IndentDecrease, IndentIncrease } from 'lucide-react'
+import { IndentDecrease, IndentIncrease, Pin } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useFlowStore } from '@/store/useFlowStore'
-import { TreeNode } from '@/types'
+import { TreeNode, BudgetLimit, NodeJudgement, NodeOverlap, NodeAnswer } from '@/types'
 
 interface CustomNodeData {
   label: string
@@ -15,13 +15,32 @@ interface CustomNodeData {
     children: TreeNode[] | null
     expanded?: boolean
     parentId?: string
+    status?: TreeNode['status']
+    limitReached?: BudgetLimit
+    error?: string
+    judgement?: NodeJudgement
+    overlaps?: NodeOverlap[]
+    answer?: NodeAnswer
+    pinned?: boolean
   }
 }
 
+// 预算限制徽标文字
+const LIMIT_BADGE_LABELS: Record<BudgetLimit, string> = {
+  max_depth: 'Depth limit',
+  max_nodes: 'Node limit',
+  max_llm_calls: 'Call limit',
+  timeout: 'Timed out',
+}
+
+// 判断置信度低于该值时显示提示徽标
+const LOW_CONFIDENCE_THRESHOLD = 0.6
+
 function CustomNode({ data, selected }: NodeProps<CustomNodeData>) {
-  const { toggleNodeExpanded, setSelectedNode, nodes, edges } = useFlowStore()
+  const { toggleNodeExpanded, setSelectedNode, nodes, edges, pendingApprovals } = useFlowStore()
   const hasChildren = data.treeNode.children && data.treeNode.children.length > 0
   const isRootNode = !edges.some(edge => edge.target === data.treeNode.id)
+  const isAwaitingApproval = pendingApprovals.some(approval => approval.nodeId === data.treeNode.id)
 
   const handleToggleExpand = (e: React.MouseEvent) => {
     e.stopPropagation()
@@ -41,7 +60,11 @@ function CustomNode({ data, selected }: NodeProps<CustomNodeData>) {
         "relative bg-white border-2 rounded-lg min-w-[240px] max-w-[300px] cursor-pointer transition-all duration-200",
         selected 
           ? "border-blue-500 ring-2 ring-blue-200" 
-          : "border-gray-200 hover:border-gray-300"
+          : "border-gray-200 hover:border-gray-300",
+        // 流式分解中的预览子项，最终结果到达后被替换
+        data.treeNode.status === 'processing' && "opacity-60 border-dashed",
+        // 审批模式下等待审批的提议子项
+        data.treeNode.status === 'proposed' && "opacity-50 border-dashed border-blue-300"
       )}
       onClick={handleNodeClick}
     >
@@ -63,6 +86,10 @@ function CustomNode({ data, selected }: NodeProps<CustomNodeData>) {
             <p className={cn(
               "text-sm font-medium text-gray-900 leading-5"
             )}>
+              {/* 置顶标记：最佳优先遍历时优先展开该分支 */}
+              {data.treeNode.pinned && (
+                <Pin className="inline-block w-3.5 h-3.5 mr-1 -mt-0.5 text-blue-500" aria-label="Pinned" />
+              )}
               {data.content}
             </p>
             
@@ -72,6 +99,57 @@ function CustomNode({ data, selected }: NodeProps<CustomNodeData>) {
                 {data.treeNode.children?.length} child nodes
               </span>
             )}
+
+            {/* 审批标记：该节点的分解结果等待用户审批 */}
+            {isAwaitingApproval && (
+              <span className="inline-block mt-2 px-2 py-1 text-xs bg-blue-50 text-blue-700 border border-blue-200 rounded-full">
+                Awaiting review
+              </span>
+            )}
+
+            {/* 预算限制标记：该叶子因运行预算停止处理 */}
+            {data.treeNode.status === 'limit_reached' && (
+              <span className="inline-block mt-2 px-2 py-1 text-xs bg-amber-50 text-amber-700 border border-amber-200 rounded-full">
+                {data.treeNode.limitReached ? LIMIT_BADGE_LABELS[data.treeNode.limitReached] : 'Limit reached'}
+              </span>
+            )}
+
+            {/* 低置信度标记：判断 Agent 对是否继续分解把握不足，值得人工复核 */}
+            {data.treeNode.judgement && data.treeNode.judgement.confidence < LOW_CONFIDENCE_THRESHOLD && (
+              <span
+                className="inline-block mt-2 px-2 py-1 text-xs bg-yellow-50 text-yellow-700 border border-yellow-200 rounded-full"
+                title={data.treeNode.judgement.reasoning}
+              >
+                Low confidence · {Math.round(data.treeNode.judgement.confidence * 100)}%
+              </span>
+            )}
+
+            {/* 重叠标记：与兄弟分支中的节点内容相近 */}
+            {data.treeNode.overlaps && data.treeNode.overlaps.length > 0 && (
+              <span
+                className="inline-block mt-2 px-2 py-1 text-xs bg-purple-50 text-purple-700 border border-purple-200 rounded-full"
+                title={data.treeNode.overlaps.map(overlap => overlap.content).join('\n')}
+              >
+                Overlaps · {data.treeNode.overlaps.length}
+              </span>
+            )}
+
+            {/* 解答标记：已生成解答，可在编辑器中查看 */}
+            {data.treeNode.answer && (
+              <span className="inline-block mt-2 px-2 py-1 text-xs bg-green-50 text-green-700 border border-green-200 rounded-full">
+                Answered
+              </span>
+            )}
+
+            {/* 失败标记：重试与修复后仍无法处理，可在编辑器中重试 */}
+            {data.treeNode.status === 'failed' && (
+              <span
+                className="inline-block mt-2 px-2 py-1 text-xs bg-red-50 text-red-700 border border-red-200 rounded-full"
+                title={data.treeNode.error}
+              >
+                Failed · click to retry
+              </span>
+            )}
           </div>
 
           {/* 展开/折叠按钮（移至右侧，原初节点不可折叠）*/}
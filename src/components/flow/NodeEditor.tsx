@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from "react";
-import { X, ChevronRight, Home } from "lucide-react";
+import { X, ChevronRight, Home, Pin, PinOff } from "lucide-react";
 import {
   Button,
   UpdateNodeButton,
@@ -16,9 +16,22 @@ interface NodeEditorProps {
   onClose: () => void;
 }
 
+// 模型标签：记录了提供商时一并显示（故障转移时可能不是首选提供商）
+function formatModelLabel(model: string, provider?: string): string {
+  return provider ? `${provider} · ${model}` : model;
+}
+
 export function NodeEditor({ isOpen, onClose }: NodeEditorProps) {
-  const { selectedNode, treeData, updateTreeNodeContent, redecomposeFromNode, deleteTreeNode } =
-    useFlowStore();
+  const {
+    selectedNode,
+    treeData,
+    updateTreeNodeContent,
+    redecomposeFromNode,
+    deleteTreeNode,
+    answerNode,
+    answeringNodeIds,
+    toggleNodePinned,
+  } = useFlowStore();
   const [editedContent, setEditedContent] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -127,6 +140,18 @@ export function NodeEditor({ isOpen, onClose }: NodeEditorProps) {
     }
   };
 
+  // 为节点生成解答，编辑器保持打开以展示结果
+  const handleAnswer = async () => {
+    if (!selectedTreeNode) return;
+
+    setError(null);
+    try {
+      await answerNode(selectedTreeNode.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Answer failed");
+    }
+  };
+
   const handleClose = () => {
     setEditedContent("");
     setError(null);
@@ -178,14 +203,37 @@ export function NodeEditor({ isOpen, onClose }: NodeEditorProps) {
               Edit node content or re-decompose
             </p>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={handleClose}
-            className="p-2"
-          >
-            <X className="w-4 h-4" />
-          </Button>
+          <div className="flex items-center gap-2">
+            {/* 置顶：最佳优先遍历时优先展开该分支 */}
+            {selectedTreeNode && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => toggleNodePinned(selectedTreeNode.id)}
+                className="p-2"
+                title={
+                  selectedTreeNode.pinned
+                    ? "Unpin branch"
+                    : "Pin branch (expanded first in best-first runs)"
+                }
+                aria-pressed={!!selectedTreeNode.pinned}
+              >
+                {selectedTreeNode.pinned ? (
+                  <PinOff className="w-4 h-4" />
+                ) : (
+                  <Pin className="w-4 h-4" />
+                )}
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleClose}
+              className="p-2"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
 
         {/* 滚动内容区域 */}
@@ -260,6 +308,168 @@ export function NodeEditor({ isOpen, onClose }: NodeEditorProps) {
             )}
           </div>
 
+          {/* 分解依据：模型为何这样拆分该节点 */}
+          {selectedTreeNode?.decomposition?.reasoning && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-gray-700">
+                Why these children?
+              </h3>
+              <div className="p-3 bg-gray-50 rounded-xl border space-y-2">
+                <p className="text-sm text-gray-800 whitespace-pre-wrap">
+                  {selectedTreeNode.decomposition.reasoning}
+                </p>
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <span className="px-2 py-1 rounded-full bg-white border text-gray-700 capitalize">
+                    {selectedTreeNode.decomposition.mode} mode
+                  </span>
+                  <span className="px-2 py-1 rounded-full bg-white border text-gray-500">
+                    {selectedTreeNode.decomposition.promptVariant}
+                  </span>
+                  {selectedTreeNode.decomposition.servedBy && (
+                    <span className="px-2 py-1 rounded-full bg-white border text-gray-500">
+                      {formatModelLabel(
+                        selectedTreeNode.decomposition.servedBy.model,
+                        selectedTreeNode.decomposition.servedBy.provider,
+                      )}
+                    </span>
+                  )}
+                  {selectedTreeNode.decomposition.cached && (
+                    <span className="px-2 py-1 rounded-full bg-white border text-gray-500">
+                      Cached
+                    </span>
+                  )}
+                </div>
+                {selectedTreeNode.decomposition.mergedDuplicates &&
+                  selectedTreeNode.decomposition.mergedDuplicates.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                      Merged duplicates of other branches:{" "}
+                      {selectedTreeNode.decomposition.mergedDuplicates.join(", ")}
+                    </p>
+                  )}
+                {selectedTreeNode.decomposition.regrouped && (
+                  <p className="text-xs text-gray-500">
+                    Children exceeded the configured maximum and were grouped
+                    under intermediate nodes.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* 判断记录：该节点为何停止或继续分解 */}
+          {selectedTreeNode?.judgement && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-gray-700">Judgement</h3>
+              <div className="p-3 bg-gray-50 rounded-xl border space-y-2">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <span className="px-2 py-1 rounded-full bg-white border text-gray-700">
+                    {selectedTreeNode.judgement.canDirectlyAnswer
+                      ? "Can answer directly"
+                      : "Needs decomposition"}
+                  </span>
+                  <span className="px-2 py-1 rounded-full bg-white border text-gray-700">
+                    Confidence{" "}
+                    {Math.round(selectedTreeNode.judgement.confidence * 100)}%
+                  </span>
+                  <span className="px-2 py-1 rounded-full bg-white border text-gray-500">
+                    {formatModelLabel(
+                      selectedTreeNode.judgement.model,
+                      selectedTreeNode.judgement.provider,
+                    )}
+                  </span>
+                  {selectedTreeNode.judgement.cached && (
+                    <span className="px-2 py-1 rounded-full bg-white border text-gray-500">
+                      Cached
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-800 whitespace-pre-wrap">
+                  {selectedTreeNode.judgement.reasoning}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* 重叠记录：与兄弟分支中内容相近的节点 */}
+          {selectedTreeNode?.overlaps && selectedTreeNode.overlaps.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-gray-700">
+                Overlaps with other branches
+              </h3>
+              <div className="space-y-2">
+                {selectedTreeNode.overlaps.map((overlap) => (
+                  <div
+                    key={overlap.nodeId}
+                    className="p-2 bg-purple-50 rounded border border-purple-200 text-sm flex items-center justify-between gap-2"
+                  >
+                    <span className="text-gray-800">{overlap.content}</span>
+                    <span className="text-xs text-purple-700 shrink-0">
+                      {Math.round(overlap.similarity * 100)}% similar
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* 解答：可直接回答的叶子节点的具体说明或讲解 */}
+          {selectedTreeNode &&
+            !selectedTreeNode.children?.length &&
+            (selectedTreeNode.canDirectlyAnswer || selectedTreeNode.answer) && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="text-sm font-medium text-gray-700">Answer</h3>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleAnswer}
+                    disabled={isLoading || answeringNodeIds.has(selectedTreeNode.id)}
+                  >
+                    {answeringNodeIds.has(selectedTreeNode.id)
+                      ? "Answering..."
+                      : selectedTreeNode.answer
+                        ? "Regenerate"
+                        : "Generate answer"}
+                  </Button>
+                </div>
+                {selectedTreeNode.answer && (
+                  <div className="p-3 bg-green-50 rounded-xl border border-green-200 space-y-2">
+                    <p className="text-sm text-gray-800 whitespace-pre-wrap">
+                      {selectedTreeNode.answer.content}
+                    </p>
+                    <span className="inline-block px-2 py-1 rounded-full bg-white border text-xs text-gray-500">
+                      {formatModelLabel(
+                        selectedTreeNode.answer.model,
+                        selectedTreeNode.answer.provider,
+                      )}
+                    </span>
+                  </div>
+                )}
+              </div>
+            )}
+
+          {/* 处理失败提示 */}
+          {selectedTreeNode?.status === "failed" && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-xl space-y-2">
+              <h3 className="text-sm font-medium text-red-700">
+                Processing failed
+              </h3>
+              {selectedTreeNode.error && (
+                <p className="text-sm text-red-600 break-words">
+                  {selectedTreeNode.error}
+                </p>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRedecompose}
+                disabled={isLoading || !editedContent.trim()}
+              >
+                Retry decomposition
+              </Button>
+            </div>
+          )}
+
           {/* 文本编辑区域 */}
           <div className="space-y-2">
             <h3 className="text-sm font-medium text-gray-900">Node Content</h3>
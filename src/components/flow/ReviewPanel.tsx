@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { Check, X } from "lucide-react";
+import { useFlowStore } from "@/store/useFlowStore";
+import { findNodeInTree } from "@/lib/tree-status";
+import { cn } from "@/lib/utils";
+import { ReviewIssueKind, TreeNode, TreePatch } from "@/types";
+
+// 问题类型徽标
+const ISSUE_KIND_LABELS: Record<ReviewIssueKind, { label: string; className: string }> = {
+  missing_branch: { label: "Missing branch", className: "bg-blue-50 text-blue-700 border-blue-200" },
+  overlap: { label: "Overlap", className: "bg-purple-50 text-purple-700 border-purple-200" },
+  wrong_nesting: { label: "Wrong nesting", className: "bg-amber-50 text-amber-700 border-amber-200" },
+  rule_violation: { label: "Rule violation", className: "bg-red-50 text-red-700 border-red-200" },
+};
+
+// 用节点内容描述补丁，节点不存在时显示ID
+function describePatch(tree: TreeNode, patch: TreePatch): string {
+  const label = (nodeId: string) => `"${findNodeInTree(tree, nodeId)?.content ?? nodeId}"`;
+  switch (patch.op) {
+    case "add_child":
+      return `Add "${patch.content}" under ${label(patch.parentId)}`;
+    case "remove_node":
+      return `Remove ${label(patch.nodeId)}`;
+    case "move_node":
+      return `Move ${label(patch.nodeId)} under ${label(patch.newParentId)}`;
+    case "update_content":
+      return `Rename ${label(patch.nodeId)} to "${patch.content}"`;
+  }
+}
+
+// 审阅面板：列出审阅 Agent 发现的问题，用户逐条接受补丁或忽略
+export function ReviewPanel() {
+  const { treeData, review, acceptReviewIssue, dismissReviewIssue, clearReview } =
+    useFlowStore();
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  if (!review || !treeData) {
+    return null;
+  }
+
+  const handleAccept = (issueId: string) => {
+    try {
+      acceptReviewIssue(issueId);
+    } catch (err) {
+      setErrors((prev) => ({
+        ...prev,
+        [issueId]: err instanceof Error ? err.message : "Patch failed",
+      }));
+    }
+  };
+
+  return (
+    <div className="absolute top-4 right-4 z-20 w-[360px] max-h-[calc(100%-2rem)] flex flex-col rounded-2xl border border-gray-200 bg-white">
+      <div className="flex items-start justify-between gap-2 p-4 border-b border-gray-100">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900">Tree review</h2>
+          <p className="text-xs text-gray-500 mt-1">{review.summary}</p>
+        </div>
+        <button
+          type="button"
+          onClick={clearReview}
+          className="h-7 w-7 rounded-lg text-gray-500 hover:bg-gray-100 flex items-center justify-center shrink-0"
+          aria-label="Close review"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {review.issues.length === 0 && (
+          <p className="text-sm text-gray-500 px-1">No open issues.</p>
+        )}
+        {review.issues.map((issue) => (
+          <div key={issue.id} className="p-3 rounded-xl border border-gray-200 space-y-2">
+            <span
+              className={cn(
+                "inline-block px-2 py-0.5 text-xs rounded-full border",
+                ISSUE_KIND_LABELS[issue.kind].className,
+              )}
+            >
+              {ISSUE_KIND_LABELS[issue.kind].label}
+            </span>
+            <p className="text-sm text-gray-800">{issue.description}</p>
+            {issue.nodeIds.length > 0 && (
+              <p className="text-xs text-gray-500">
+                {issue.nodeIds
+                  .map((nodeId) => findNodeInTree(treeData, nodeId)?.content ?? nodeId)
+                  .join(" · ")}
+              </p>
+            )}
+            {issue.patch && (
+              <p className="text-xs text-gray-700 bg-gray-50 rounded-lg px-2 py-1.5">
+                {describePatch(treeData, issue.patch)}
+              </p>
+            )}
+            {errors[issue.id] && (
+              <p className="text-xs text-red-600">{errors[issue.id]}</p>
+            )}
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => dismissReviewIssue(issue.id)}
+                className="h-7 px-2.5 rounded-lg text-xs text-gray-600 hover:bg-gray-100"
+              >
+                Dismiss
+              </button>
+              {issue.patch && (
+                <button
+                  type="button"
+                  onClick={() => handleAccept(issue.id)}
+                  className="h-7 px-2.5 rounded-lg bg-gray-900 text-white text-xs hover:bg-gray-700 flex items-center gap-1"
+                >
+                  <Check className="w-3.5 h-3.5" />
+                  Accept
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
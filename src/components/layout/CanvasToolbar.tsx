@@ -1,8 +1,10 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Plus, Minus, Focus, ImageDown } from "lucide-react";
+import { Plus, Minus, Focus, ImageDown, Play, ClipboardCheck } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { LanguageSelect } from "@/components/ui/LanguageSelect";
+import { OutputLanguage } from "@/types";
 
 interface CanvasToolbarProps {
   className?: string;
@@ -11,7 +13,15 @@ interface CanvasToolbarProps {
   onFitView: () => void;
   onExportPNG: () => void | Promise<void>;
   onExportSVG: () => void | Promise<void>;
+  onExportMarkdown: () => void | Promise<void>;
   isExporting?: boolean;
+  canContinue?: boolean; // 树中存在未处理完的叶子节点
+  onContinue?: () => void | Promise<void>;
+  outputLanguage?: OutputLanguage; // 当前项目的输出语言
+  onOutputLanguageChange?: (language: OutputLanguage) => void;
+  canReview?: boolean; // 树已分解完成，可以审阅
+  isReviewing?: boolean;
+  onReview?: () => void | Promise<void>;
 }
 
 export function CanvasToolbar({
@@ -21,7 +31,15 @@ export function CanvasToolbar({
   onFitView,
   onExportPNG,
   onExportSVG,
+  onExportMarkdown,
   isExporting = false,
+  canContinue = false,
+  onContinue,
+  outputLanguage,
+  onOutputLanguageChange,
+  canReview = false,
+  isReviewing = false,
+  onReview,
 }: CanvasToolbarProps) {
   const [open, setOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement | null>(null);
@@ -64,6 +82,54 @@ export function CanvasToolbar({
           <Focus className="w-4 h-4" />
         </button>
 
+        {/* 继续分解：处理上次运行留下的待处理叶子节点 */}
+        {canContinue && onContinue && (
+          <>
+            <div className="h-5 w-px bg-gray-200 mx-1" />
+            <button
+              type="button"
+              onClick={onContinue}
+              className="h-8 rounded-xl px-3 bg-white text-gray-800 hover:bg-gray-100 flex items-center gap-1.5 transition-colors text-sm"
+              title="Continue decomposition"
+            >
+              <Play className="w-4 h-4" />
+              <span>continue</span>
+            </button>
+          </>
+        )}
+
+        {/* 审阅：检查整棵树的缺失分支、重叠与层级问题 */}
+        {canReview && onReview && (
+          <>
+            <div className="h-5 w-px bg-gray-200 mx-1" />
+            <button
+              type="button"
+              onClick={onReview}
+              disabled={isReviewing}
+              className={cn(
+                "h-8 rounded-xl px-3 bg-white text-gray-800 hover:bg-gray-100 flex items-center gap-1.5 transition-colors text-sm",
+                isReviewing && "opacity-60 cursor-not-allowed",
+              )}
+              title="Review tree"
+            >
+              <ClipboardCheck className="w-4 h-4" />
+              <span>{isReviewing ? "reviewing" : "review"}</span>
+            </button>
+          </>
+        )}
+
+        {/* 输出语言：之后的继续分解与重新分解使用该语言 */}
+        {outputLanguage && onOutputLanguageChange && (
+          <>
+            <div className="h-5 w-px bg-gray-200 mx-1" />
+            <LanguageSelect
+              language={outputLanguage}
+              onChange={onOutputLanguageChange}
+              className="h-8 rounded-xl border-0 bg-white hover:bg-gray-100 text-gray-800"
+            />
+          </>
+        )}
+
         <div className="h-5 w-px bg-gray-200 mx-1" />
 
         <div className="relative" ref={menuRef}>
@@ -85,7 +151,7 @@ export function CanvasToolbar({
           {open && (
             <div
               role="menu"
-              className="absolute right-0 bottom-full mb-3 w-36 rounded-xl border border-gray-200 bg-white p-1"
+              className="absolute right-0 bottom-full mb-3 w-44 rounded-xl border border-gray-200 bg-white p-1"
             >
               <button
                 role="menuitem"
@@ -107,6 +173,16 @@ export function CanvasToolbar({
               >
                 <span className="text-gray-800">Export as SVG</span>
               </button>
+              <button
+                role="menuitem"
+                className="w-full text-left px-3 py-2 rounded-lg hover:bg-gray-100 flex items-center gap-2"
+                onClick={async () => {
+                  setOpen(false);
+                  await onExportMarkdown();
+                }}
+              >
+                <span className="text-gray-800">Export as Markdown</span>
+              </button>
             </div>
           )}
         </div>
@@ -4,7 +4,8 @@ import { useState, useEffect } from "react";
 import { useHistoryStorage } from "@/hooks/useHistoryStorage";
 import { useFlowStore } from "@/store/useFlowStore";
 import { NewProjectButton } from "@/components/ui/Button";
-import { PanelLeft, Settings, Plus } from "lucide-react";
+import { PanelLeft, Settings, Plus, Play } from "lucide-react";
+import { hasResumableLeaves } from "@/lib/tree-status";
 
 interface SidebarProps {
   onNewFlow?: () => void;
@@ -24,7 +25,8 @@ export function Sidebar({
     deleteHistory,
     renameHistory,
   } = useHistoryStorage();
-  const { resetState, setAutoSaveCallback } = useFlowStore();
+  const { resetState, setAutoSaveCallback, resumeDecomposition, isDecomposing } =
+    useFlowStore();
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState("");
   const [selectedId, setSelectedId] = useState<string | null>(null);
@@ -42,6 +44,14 @@ export function Sidebar({
     setSelectedId(id);
   };
 
+  // 加载项目并从保存的树继续分解
+  const handleContinue = (id: string) => {
+    handleLoad(id);
+    resumeDecomposition().catch((error) => {
+      console.error("继续分解失败:", error);
+    });
+  };
+
   const handleDelete = (id: string) => {
     deleteHistory(id);
     if (selectedId === id) setSelectedId(null);
@@ -211,6 +221,20 @@ export function Sidebar({
                     {/* 操作按钮 */}
                     <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
                       <div className="flex space-x-1">
+                        {!isDecomposing &&
+                          item.flowState.treeData &&
+                          hasResumableLeaves(item.flowState.treeData) && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleContinue(item.id);
+                              }}
+                              className="p-1 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded"
+                              title="Continue decomposition"
+                            >
+                              <Play className="w-4 h-4" />
+                            </button>
+                          )}
                         <button
                           onClick={(e) => {
                             e.stopPropagation();
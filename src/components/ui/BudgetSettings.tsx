@@ -0,0 +1,199 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { SlidersHorizontal } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ChildCountLimits, ChildCountRange, WorkflowBudget } from "@/types";
+
+interface BudgetSettingsProps {
+  budget: WorkflowBudget;
+  onChange: (budget: WorkflowBudget) => void;
+  // 可选：每次分解的子节点数量范围，未传入时不显示
+  childLimits?: ChildCountLimits;
+  onChildLimitsChange?: (limits: ChildCountLimits) => void;
+  className?: string;
+}
+
+// 预算字段定义；超时在界面中以秒展示，存储为毫秒
+const BUDGET_FIELDS: {
+  key: keyof WorkflowBudget;
+  label: string;
+  hint: string;
+  scale: number;
+}[] = [
+  { key: "maxDepth", label: "Max depth", hint: "levels below root", scale: 1 },
+  { key: "maxNodes", label: "Max nodes", hint: "total nodes", scale: 1 },
+  { key: "maxLLMCalls", label: "Max LLM calls", hint: "calls per run", scale: 1 },
+  { key: "timeoutMs", label: "Timeout", hint: "seconds", scale: 1000 },
+];
+
+// 子节点数量字段定义
+const CHILD_COUNT_FIELDS: {
+  key: keyof ChildCountRange;
+  label: string;
+  hint: string;
+}[] = [
+  { key: "min", label: "Min children", hint: "per decomposition" },
+  { key: "max", label: "Max children", hint: "per decomposition" },
+];
+
+export function BudgetSettings({
+  budget,
+  onChange,
+  childLimits,
+  onChildLimitsChange,
+  className,
+}: BudgetSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const activeCount =
+    BUDGET_FIELDS.filter(({ key }) => budget[key]).length +
+    CHILD_COUNT_FIELDS.filter(({ key }) => childLimits?.[key]).length;
+
+  useEffect(() => {
+    function onClickOutside(e: MouseEvent) {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(e.target as Node)
+      ) {
+        setOpen(false);
+      }
+    }
+    if (open) document.addEventListener("mousedown", onClickOutside);
+    return () => document.removeEventListener("mousedown", onClickOutside);
+  }, [open]);
+
+  const handleFieldChange = (
+    key: keyof WorkflowBudget,
+    scale: number,
+    raw: string,
+  ) => {
+    const value = Number(raw);
+    onChange({
+      ...budget,
+      [key]: raw && Number.isFinite(value) && value > 0
+        ? Math.floor(value * scale)
+        : undefined,
+    });
+  };
+
+  const handleChildCountChange = (key: keyof ChildCountRange, raw: string) => {
+    const value = Number(raw);
+    onChildLimitsChange?.({
+      ...childLimits,
+      [key]: raw && Number.isFinite(value) && value > 0
+        ? Math.floor(value)
+        : undefined,
+    });
+  };
+
+  const handleClear = () => {
+    onChange({});
+    onChildLimitsChange?.({});
+  };
+
+  return (
+    <div className={cn("relative", className)} ref={containerRef}>
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className={cn(
+          "h-9 px-3 rounded-full border border-gray-200 flex items-center gap-1.5 text-[13px] transition-colors",
+          activeCount > 0
+            ? "bg-gray-900 text-white hover:bg-gray-700"
+            : "bg-gray-100 text-gray-600 hover:bg-gray-200",
+        )}
+        aria-haspopup="dialog"
+        aria-expanded={open}
+        aria-label="Run limits"
+      >
+        <SlidersHorizontal className="w-4 h-4" />
+        <span>{activeCount > 0 ? `Limits · ${activeCount}` : "Limits"}</span>
+      </button>
+
+      {open && (
+        <div
+          role="dialog"
+          className="absolute left-0 top-full mt-2 z-50 w-[280px] rounded-2xl border border-gray-200 bg-white p-3 space-y-2"
+        >
+          <div className="text-[13px] font-semibold text-gray-900">
+            Run limits
+          </div>
+          <p className="text-[12px] leading-4 text-gray-500">
+            Leave empty for no limit. Leaves that hit a limit are kept and
+            marked on the canvas.
+          </p>
+          {BUDGET_FIELDS.map(({ key, label, hint, scale }) => (
+            <label
+              key={key}
+              className="grid grid-cols-[1fr_96px] items-center gap-2"
+            >
+              <span className="text-[13px] text-gray-700">
+                {label}
+                <span className="block text-[11px] text-gray-400">{hint}</span>
+              </span>
+              <input
+                type="number"
+                min={1}
+                inputMode="numeric"
+                value={budget[key] ? budget[key]! / scale : ""}
+                onChange={(e) => handleFieldChange(key, scale, e.target.value)}
+                placeholder="∞"
+                className="h-8 w-full rounded-lg border border-gray-200 px-2 text-[13px] text-gray-800 focus:outline-none focus:ring-1 focus:ring-gray-200"
+              />
+            </label>
+          ))}
+          {onChildLimitsChange && (
+            <>
+              <div className="pt-1 text-[13px] font-semibold text-gray-900">
+                Children per node
+              </div>
+              {CHILD_COUNT_FIELDS.map(({ key, label, hint }) => (
+                <label
+                  key={key}
+                  className="grid grid-cols-[1fr_96px] items-center gap-2"
+                >
+                  <span className="text-[13px] text-gray-700">
+                    {label}
+                    <span className="block text-[11px] text-gray-400">{hint}</span>
+                  </span>
+                  <input
+                    type="number"
+                    min={1}
+                    inputMode="numeric"
+                    value={childLimits?.[key] ?? ""}
+                    onChange={(e) => handleChildCountChange(key, e.target.value)}
+                    placeholder="∞"
+                    className="h-8 w-full rounded-lg border border-gray-200 px-2 text-[13px] text-gray-800 focus:outline-none focus:ring-1 focus:ring-gray-200"
+                  />
+                </label>
+              ))}
+              <label className="flex items-center gap-2 px-1 text-[12px] text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={childLimits?.overflow === "regroup"}
+                  onChange={(e) =>
+                    onChildLimitsChange({
+                      ...childLimits,
+                      overflow: e.target.checked ? "regroup" : "reask",
+                    })
+                  }
+                />
+                Group extra children instead of asking again
+              </label>
+            </>
+          )}
+          {activeCount > 0 && (
+            <button
+              type="button"
+              onClick={handleClear}
+              className="w-full text-left px-1 pt-1 text-[12px] text-gray-500 hover:text-gray-800"
+            >
+              Clear limits
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
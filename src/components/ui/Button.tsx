@@ -1,7 +1,5 @@
-import { ButtonHTMLAttributes, forwardRef, useState, ReactNode } from "react";
+import { ButtonHTMLAttributes, forwardRef } from "react";
 import {
-  ListTodo,
-  Atom,
   CornerDownLeft,
   Save,
   RotateCcw,
@@ -46,120 +44,6 @@ const Button = forwardRef<HTMLButtonElement, ButtonProps>(
 );
 Button.displayName = "Button";
 
-// 模式选择器组件
-export interface ModeToggleProps {
-  mode: "task" | "concept";
-  onModeChange: (mode: "task" | "concept") => void;
-  className?: string;
-}
-
-export const ModeToggle = forwardRef<HTMLDivElement, ModeToggleProps>(
-  ({ mode, onModeChange, className }, ref) => {
-    const [hovered, setHovered] = useState<"task" | "concept" | null>(null);
-
-    const TooltipBubble = ({
-      icon,
-      title,
-      description,
-      align = "left",
-    }: {
-      icon: ReactNode;
-      title: string;
-      description: string;
-      align?: "left" | "right";
-    }) => {
-      return (
-        <div
-          className={cn(
-            "absolute top-full mt-2 z-50 w-[260px] rounded-2xl border border-gray-200 bg-white p-3",
-            align === "left" ? "left-0" : "right-0",
-          )}
-        >
-          <div className="grid grid-cols-[auto_1fr] gap-x-1 items-start">
-            <div className="mt-0.5">{icon}</div>
-            <div>
-              <div className="text-[18px] font-semibold text-gray-900">
-                {title}
-              </div>
-            </div>
-            <div className="col-span-2 mt-1 text-[13px] leading-5 text-gray-600">
-              {description}
-            </div>
-          </div>
-        </div>
-      );
-    };
-
-    return (
-      <div
-        ref={ref}
-        className={cn(
-          "relative inline-flex items-center w-[72px] h-9 rounded-full cursor-pointer transition-all duration-200 border border-gray-200 bg-gray-100 px-1 select-none",
-          className,
-        )}
-        onMouseDown={(e) => e.preventDefault()}
-        onClick={() => onModeChange(mode === "task" ? "concept" : "task")}
-      >
-        {/* 透明滑块（仅用于高亮选中位置，不包含图标） */}
-        <div
-          className={cn(
-            "absolute top-[3px] left-[3px] w-[28px] h-[28px] rounded-full bg-white shadow-sm transition-transform duration-150",
-            mode === "task" ? "translate-x-0" : "translate-x-[36px]",
-          )}
-        />
-
-        {/* 始终显示两个图标，未选中更暗 */}
-        <div className="relative z-10 w-[58px] h-full">
-          {/* 左侧 Task 图标与提示 */}
-          <div
-            className="absolute left-[5px] top-1/2 -translate-y-1/2 flex w-4 h-4 transition-colors"
-            onMouseEnter={() => setHovered("task")}
-            onMouseLeave={() => setHovered(null)}
-          >
-            <ListTodo
-              className={cn(
-                "w-4 h-4 transition-colors",
-                mode === "task" ? "font-serif text-gray-900" : "text-gray-400",
-              )}
-            />
-            {hovered === "task" && (
-              <TooltipBubble
-                icon={<ListTodo className="h-5 w-6 text-gray-900" />}
-                title="Task"
-                description="Decompose any Task or Process into steps"
-                align="left"
-              />
-            )}
-          </div>
-
-          {/* 右侧 Concept 图标与提示 */}
-          <div
-            className="absolute right-[1px] top-1/2 -translate-y-1/2 w-4 h-4 transition-colors"
-            onMouseEnter={() => setHovered("concept")}
-            onMouseLeave={() => setHovered(null)}
-          >
-            <Atom
-              className={cn(
-                "w-4 h-4 transition-colors",
-                mode === "concept" ? "text-gray-900" : "text-gray-400",
-              )}
-            />
-            {hovered === "concept" && (
-              <TooltipBubble
-                icon={<Atom className="h-5 w-6 text-gray-900" />}
-                title="Concept"
-                description="Decompose any Object or Concept into components"
-                align="right"
-              />
-            )}
-          </div>
-        </div>
-      </div>
-    );
-  },
-);
-ModeToggle.displayName = "ModeToggle";
-
 // 发送按钮组件（用于输入框右下角位置）
 export interface SendButtonProps
   extends ButtonHTMLAttributes<HTMLButtonElement> {
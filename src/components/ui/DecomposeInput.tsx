@@ -1,12 +1,21 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
-import { ModeToggle, SendButton } from "./Button";
+import { MessageSquareText, UserCheck } from "lucide-react";
+import { SendButton } from "./Button";
 import { Textarea } from "./Input";
-import { DecomposeMode } from "@/types";
+import { BudgetSettings } from "./BudgetSettings";
+import { ModeSelector } from "./ModeSelector";
+import { LanguageSelect } from "./LanguageSelect";
+import { StrategySelect } from "./StrategySelect";
+import { DEFAULT_MODE_ID } from "@/lib/modes";
+import { DEFAULT_OUTPUT_LANGUAGE } from "@/lib/languages";
+import { DEFAULT_TRAVERSAL_STRATEGY } from "@/lib/traversal";
+import { cn } from "@/lib/utils";
+import { ChildCountLimits, DecomposeMode, OutputLanguage, TraversalStrategy, WorkflowBudget, WorkflowOptions } from "@/types";
 
 export interface DecomposeInputProps {
-  onSubmit: (text: string, mode: DecomposeMode) => void;
+  onSubmit: (text: string, mode: DecomposeMode, options: WorkflowOptions) => void;
   isLoading?: boolean;
   error?: string | null;
   className?: string;
@@ -25,7 +34,7 @@ export function DecomposeInput({
   error = null,
   className = "",
   placeholder = "Deconstruct anything.",
-  defaultMode = "concept",
+  defaultMode = DEFAULT_MODE_ID,
   presetText,
   presetMode,
   onModeChange,
@@ -34,6 +43,16 @@ export function DecomposeInput({
   const [inputText, setInputText] = useState("");
   const [decomposeMode, setDecomposeMode] =
     useState<DecomposeMode>(defaultMode);
+  const [budget, setBudget] = useState<WorkflowBudget>({});
+  const [language, setLanguage] = useState<OutputLanguage>(
+    DEFAULT_OUTPUT_LANGUAGE,
+  );
+  const [answerLeaves, setAnswerLeaves] = useState(false);
+  const [approvalMode, setApprovalMode] = useState(false);
+  const [strategy, setStrategy] = useState<TraversalStrategy>(
+    DEFAULT_TRAVERSAL_STRATEGY,
+  );
+  const [childLimits, setChildLimits] = useState<ChildCountLimits>({});
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
 
   const autoResize = () => {
@@ -45,7 +64,15 @@ export function DecomposeInput({
 
   const handleSubmit = () => {
     if (!inputText.trim() || isLoading) return;
-    onSubmit(inputText.trim(), decomposeMode);
+    const hasChildLimits = childLimits.min !== undefined || childLimits.max !== undefined;
+    onSubmit(inputText.trim(), decomposeMode, {
+      budget,
+      language,
+      answerLeaves,
+      strategy,
+      childLimits: hasChildLimits ? childLimits : undefined,
+      approvalMode,
+    });
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -101,9 +128,47 @@ export function DecomposeInput({
           style={{ boxShadow: "none" }}
         />
 
-        {/* 模式选择按钮 */}
-        <div className="absolute left-2.5 bottom-1">
-          <ModeToggle mode={decomposeMode} onModeChange={setDecomposeMode} />
+        {/* 模式选择、输出语言、遍历策略、运行预算、逐步审批与解答阶段设置 */}
+        <div className="absolute left-2.5 bottom-1 flex items-center gap-2">
+          <ModeSelector mode={decomposeMode} onModeChange={setDecomposeMode} />
+          <LanguageSelect language={language} onChange={setLanguage} />
+          <StrategySelect strategy={strategy} onChange={setStrategy} />
+          <BudgetSettings
+            budget={budget}
+            onChange={setBudget}
+            childLimits={childLimits}
+            onChildLimitsChange={setChildLimits}
+          />
+          <button
+            type="button"
+            onClick={() => setAnswerLeaves((v) => !v)}
+            className={cn(
+              "h-9 px-3 rounded-full border border-gray-200 flex items-center gap-1.5 text-[13px] transition-colors",
+              answerLeaves
+                ? "bg-gray-900 text-white hover:bg-gray-700"
+                : "bg-gray-100 text-gray-600 hover:bg-gray-200",
+            )}
+            aria-pressed={answerLeaves}
+            title="Answer the leaves once decomposition is done"
+          >
+            <MessageSquareText className="w-4 h-4" />
+            <span>Answers</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => setApprovalMode((v) => !v)}
+            className={cn(
+              "h-9 px-3 rounded-full border border-gray-200 flex items-center gap-1.5 text-[13px] transition-colors",
+              approvalMode
+                ? "bg-gray-900 text-white hover:bg-gray-700"
+                : "bg-gray-100 text-gray-600 hover:bg-gray-200",
+            )}
+            aria-pressed={approvalMode}
+            title="Pause after each decomposition to accept, edit, reject or regenerate it"
+          >
+            <UserCheck className="w-4 h-4" />
+            <span>Review steps</span>
+          </button>
         </div>
 
         {/* 发送按钮 */}
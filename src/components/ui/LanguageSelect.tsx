@@ -0,0 +1,43 @@
+"use client";
+
+import { Languages } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { OUTPUT_LANGUAGES } from "@/lib/languages";
+import { OutputLanguage } from "@/types";
+
+interface LanguageSelectProps {
+  language: OutputLanguage;
+  onChange: (language: OutputLanguage) => void;
+  className?: string;
+}
+
+// 输出语言选择：决定节点内容与分解说明使用的语言
+export function LanguageSelect({
+  language,
+  onChange,
+  className,
+}: LanguageSelectProps) {
+  return (
+    <label
+      className={cn(
+        "relative h-9 pl-3 pr-2 rounded-full border border-gray-200 bg-gray-100 text-gray-600 hover:bg-gray-200 flex items-center gap-1.5 text-[13px] transition-colors cursor-pointer",
+        className,
+      )}
+      title="Output language"
+    >
+      <Languages className="w-4 h-4" />
+      <select
+        value={language}
+        onChange={(e) => onChange(e.target.value)}
+        className="bg-transparent focus:outline-none cursor-pointer"
+        aria-label="Output language"
+      >
+        {OUTPUT_LANGUAGES.map(({ code, label }) => (
+          <option key={code} value={code}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
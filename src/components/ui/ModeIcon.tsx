@@ -0,0 +1,63 @@
+import {
+  Atom,
+  BookOpen,
+  Brain,
+  Briefcase,
+  CalendarCheck,
+  CheckSquare,
+  Compass,
+  Database,
+  FlaskConical,
+  Globe,
+  Layers,
+  Lightbulb,
+  ListChecks,
+  ListTodo,
+  LucideIcon,
+  Puzzle,
+  Rocket,
+  Scale,
+  ShieldAlert,
+  Sparkles,
+  Target,
+  TrendingUp,
+} from "lucide-react";
+
+// 模式与示例可用的图标（按 lucide 图标名称索引）；未知名称回退为 Sparkles
+const MODE_ICONS: Record<string, LucideIcon> = {
+  Atom,
+  BookOpen,
+  Brain,
+  Briefcase,
+  CalendarCheck,
+  CheckSquare,
+  Compass,
+  Database,
+  FlaskConical,
+  Globe,
+  Layers,
+  Lightbulb,
+  ListChecks,
+  ListTodo,
+  Puzzle,
+  Rocket,
+  Scale,
+  ShieldAlert,
+  Sparkles,
+  Target,
+  TrendingUp,
+};
+
+// 新建自定义模式时可选的图标
+export const MODE_ICON_NAMES = Object.keys(MODE_ICONS);
+
+export function ModeIcon({
+  name,
+  className,
+}: {
+  name?: string;
+  className?: string;
+}) {
+  const Icon = (name && MODE_ICONS[name]) || Sparkles;
+  return <Icon className={className} />;
+}
@@ -0,0 +1,285 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Check, ChevronDown, Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { BUILTIN_MODES, DEFAULT_MODE_ID, findMode } from "@/lib/modes";
+import { useModeStore } from "@/store/useModeStore";
+import { DecomposeMode, DecomposeModeDefinition } from "@/types";
+import { ModeIcon, MODE_ICON_NAMES } from "./ModeIcon";
+
+interface ModeSelectorProps {
+  mode: DecomposeMode;
+  onModeChange: (mode: DecomposeMode) => void;
+  className?: string;
+}
+
+// 新建模式表单的初始值
+const EMPTY_DRAFT = {
+  label: "",
+  description: "",
+  icon: "Sparkles",
+  root: "",
+  sub: "",
+  judgement: "",
+  answer: "",
+  examples: "",
+};
+
+type ModeDraft = typeof EMPTY_DRAFT;
+
+// 由表单生成自定义模式定义；ID 由名称与时间戳生成，避免与内置模式冲突
+function draftToMode(draft: ModeDraft): DecomposeModeDefinition {
+  const slug = draft.label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return {
+    id: `custom-${slug || "mode"}-${Date.now().toString(36)}`,
+    label: draft.label.trim(),
+    description: draft.description.trim(),
+    icon: draft.icon,
+    examples: draft.examples
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .slice(0, 10)
+      .map((text) => ({ text })),
+    prompts: {
+      root: draft.root.trim(),
+      sub: draft.sub.trim() || draft.root.trim(),
+      judgement: draft.judgement.trim() || undefined,
+      answer: draft.answer.trim() || undefined,
+    },
+    builtin: false,
+  };
+}
+
+const fieldClassName =
+  "w-full rounded-lg border border-gray-200 px-2 py-1.5 text-[13px] text-gray-800 focus:outline-none focus:ring-1 focus:ring-gray-200";
+
+export function ModeSelector({
+  mode,
+  onModeChange,
+  className,
+}: ModeSelectorProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<ModeDraft | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const customModes = useModeStore((state) => state.customModes);
+  const saveCustomMode = useModeStore((state) => state.saveCustomMode);
+  const deleteCustomMode = useModeStore((state) => state.deleteCustomMode);
+  const current = findMode(mode, customModes);
+
+  useEffect(() => {
+    function onClickOutside(e: MouseEvent) {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(e.target as Node)
+      ) {
+        setOpen(false);
+        setDraft(null);
+      }
+    }
+    if (open) document.addEventListener("mousedown", onClickOutside);
+    return () => document.removeEventListener("mousedown", onClickOutside);
+  }, [open]);
+
+  const handleSelect = (modeId: DecomposeMode) => {
+    onModeChange(modeId);
+    setOpen(false);
+  };
+
+  const handleDelete = (modeId: string) => {
+    deleteCustomMode(modeId);
+    if (modeId === mode) onModeChange(DEFAULT_MODE_ID);
+  };
+
+  const handleCreate = () => {
+    if (!draft || !draft.label.trim() || !draft.root.trim()) return;
+    const newMode = draftToMode(draft);
+    saveCustomMode(newMode);
+    setDraft(null);
+    handleSelect(newMode.id);
+  };
+
+  const updateDraft = (updates: Partial<ModeDraft>) =>
+    setDraft((d) => (d ? { ...d, ...updates } : d));
+
+  const renderOption = (option: DecomposeModeDefinition) => (
+    <div
+      key={option.id}
+      className={cn(
+        "group flex items-start gap-2 rounded-xl px-2 py-2 cursor-pointer hover:bg-gray-50",
+        option.id === mode && "bg-gray-50",
+      )}
+      onClick={() => handleSelect(option.id)}
+    >
+      <ModeIcon name={option.icon} className="w-4 h-4 mt-0.5 text-gray-700" />
+      <div className="flex-1 min-w-0">
+        <div className="text-[13px] font-medium text-gray-900">
+          {option.label}
+        </div>
+        {option.description && (
+          <div className="text-[12px] leading-4 text-gray-500">
+            {option.description}
+          </div>
+        )}
+      </div>
+      {option.id === mode && <Check className="w-4 h-4 text-gray-700" />}
+      {!option.builtin && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            handleDelete(option.id);
+          }}
+          className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-600"
+          aria-label={`Delete ${option.label}`}
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className={cn("relative", className)} ref={containerRef}>
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="h-9 px-3 rounded-full border border-gray-200 bg-gray-100 text-gray-700 hover:bg-gray-200 flex items-center gap-1.5 text-[13px] transition-colors"
+        aria-haspopup="listbox"
+        aria-expanded={open}
+        aria-label="Decomposition mode"
+      >
+        <ModeIcon name={current?.icon} className="w-4 h-4" />
+        <span>{current?.label ?? mode}</span>
+        <ChevronDown className="w-3.5 h-3.5 text-gray-400" />
+      </button>
+
+      {open && (
+        <div
+          role="dialog"
+          className="absolute left-0 top-full mt-2 z-50 w-[320px] max-h-[70vh] overflow-y-auto rounded-2xl border border-gray-200 bg-white p-2"
+        >
+          {!draft ? (
+            <>
+              {BUILTIN_MODES.map(renderOption)}
+              {customModes.length > 0 && (
+                <>
+                  <div className="px-2 pt-2 pb-1 text-[11px] font-semibold uppercase tracking-wide text-gray-400">
+                    Custom
+                  </div>
+                  {customModes.map(renderOption)}
+                </>
+              )}
+              <button
+                type="button"
+                onClick={() => setDraft(EMPTY_DRAFT)}
+                className="mt-1 w-full flex items-center gap-2 rounded-xl px-2 py-2 text-[13px] text-gray-600 hover:bg-gray-50"
+              >
+                <Plus className="w-4 h-4" />
+                New mode
+              </button>
+            </>
+          ) : (
+            <div className="space-y-2 p-1">
+              <div className="text-[13px] font-semibold text-gray-900">
+                New mode
+              </div>
+              <input
+                value={draft.label}
+                onChange={(e) => updateDraft({ label: e.target.value })}
+                placeholder="Name, e.g. Risk analysis"
+                maxLength={64}
+                className={fieldClassName}
+              />
+              <input
+                value={draft.description}
+                onChange={(e) => updateDraft({ description: e.target.value })}
+                placeholder="Short description"
+                maxLength={200}
+                className={fieldClassName}
+              />
+              <div className="flex flex-wrap gap-1">
+                {MODE_ICON_NAMES.map((name) => (
+                  <button
+                    key={name}
+                    type="button"
+                    onClick={() => updateDraft({ icon: name })}
+                    className={cn(
+                      "w-7 h-7 rounded-lg flex items-center justify-center border",
+                      draft.icon === name
+                        ? "border-gray-900 text-gray-900"
+                        : "border-transparent text-gray-400 hover:text-gray-700",
+                    )}
+                    aria-label={name}
+                  >
+                    <ModeIcon name={name} className="w-4 h-4" />
+                  </button>
+                ))}
+              </div>
+              <textarea
+                value={draft.root}
+                onChange={(e) => updateDraft({ root: e.target.value })}
+                placeholder="Root prompt: how to split the user's input"
+                rows={3}
+                className={fieldClassName}
+              />
+              <textarea
+                value={draft.sub}
+                onChange={(e) => updateDraft({ sub: e.target.value })}
+                placeholder="Sub-item prompt (optional, defaults to the root prompt)"
+                rows={3}
+                className={fieldClassName}
+              />
+              <textarea
+                value={draft.judgement}
+                onChange={(e) => updateDraft({ judgement: e.target.value })}
+                placeholder="Judgement prompt (optional): when is an item small enough"
+                rows={2}
+                className={fieldClassName}
+              />
+              <textarea
+                value={draft.answer}
+                onChange={(e) => updateDraft({ answer: e.target.value })}
+                placeholder="Answer prompt (optional): how to answer a final item"
+                rows={2}
+                className={fieldClassName}
+              />
+              <textarea
+                value={draft.examples}
+                onChange={(e) => updateDraft({ examples: e.target.value })}
+                placeholder="Example inputs, one per line"
+                rows={2}
+                className={fieldClassName}
+              />
+              <p className="text-[11px] leading-4 text-gray-400">
+                The JSON output format is added to your prompts automatically.
+              </p>
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setDraft(null)}
+                  className="h-8 px-3 rounded-lg text-[13px] text-gray-600 hover:bg-gray-100"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCreate}
+                  disabled={!draft.label.trim() || !draft.root.trim()}
+                  className="h-8 px-3 rounded-lg bg-gray-900 text-white text-[13px] hover:bg-gray-700 disabled:opacity-50"
+                >
+                  Create
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,25 @@
 import React from "react";
 import { TerminateButton } from "./Button";
+import { TokenUsage } from "@/types";
 
 interface ProgressBarProps {
   isDecomposing: boolean;
   decomposingMessage?: string;
   decomposingProgress?: number;
+  usage?: TokenUsage | null;
   onTerminate?: () => void;
 }
 
+// 格式化费用：小额保留更多小数位
+function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
 export function ProgressBar({
   isDecomposing,
   decomposingMessage,
   decomposingProgress = 0,
+  usage,
   onTerminate
 }: ProgressBarProps) {
   if (!isDecomposing && !decomposingMessage) {
@@ -37,6 +45,17 @@ export function ProgressBar({
                 ></div>
               </div>
             )}
+            {usage && usage.calls > 0 && (
+              <span className="text-xs text-gray-500">
+                {usage.totalTokens.toLocaleString("en-US")} tokens
+                {" · "}
+                {usage.promptTokens.toLocaleString("en-US")} in / {usage.completionTokens.toLocaleString("en-US")} out
+                {" · "}
+                {usage.calls} calls
+                {" · "}
+                ~{formatCost(usage.cost)}
+              </span>
+            )}
           </div>
         </div>
 
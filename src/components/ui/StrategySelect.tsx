@@ -0,0 +1,45 @@
+"use client";
+
+import { Route } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { TRAVERSAL_STRATEGIES } from "@/lib/traversal";
+import { TraversalStrategy } from "@/types";
+
+interface StrategySelectProps {
+  strategy: TraversalStrategy;
+  onChange: (strategy: TraversalStrategy) => void;
+  className?: string;
+}
+
+// 遍历策略选择：决定先逐层铺开，还是先把一个分支分解到底
+export function StrategySelect({
+  strategy,
+  onChange,
+  className,
+}: StrategySelectProps) {
+  const current = TRAVERSAL_STRATEGIES.find((option) => option.id === strategy);
+
+  return (
+    <label
+      className={cn(
+        "relative h-9 pl-3 pr-2 rounded-full border border-gray-200 bg-gray-100 text-gray-600 hover:bg-gray-200 flex items-center gap-1.5 text-[13px] transition-colors cursor-pointer",
+        className,
+      )}
+      title={current?.description ?? "Traversal strategy"}
+    >
+      <Route className="w-4 h-4" />
+      <select
+        value={strategy}
+        onChange={(e) => onChange(e.target.value as TraversalStrategy)}
+        className="bg-transparent focus:outline-none cursor-pointer"
+        aria-label="Traversal strategy"
+      >
+        {TRAVERSAL_STRATEGIES.map(({ id, label }) => (
+          <option key={id} value={id}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -67,7 +67,7 @@ export function useHistoryStorage(): Omit<HistoryStorageHook, 'saveHistory'> & {
   // 开始新的分解会话
   const startNewSession = useCallback((rootContent: string) => {
     // 使用最新的全局状态，避免闭包过期
-    const { nodes, edges, treeData: latestTreeData, selectedNode, nodeWidths } = useFlowStore.getState()
+    const { nodes, edges, treeData: latestTreeData, selectedNode, nodeWidths, outputLanguage } = useFlowStore.getState()
     if (!latestTreeData) return
 
     const timestamp = Date.now()
@@ -82,7 +82,8 @@ export function useHistoryStorage(): Omit<HistoryStorageHook, 'saveHistory'> & {
         edges,
         treeData: latestTreeData,
         selectedNode,
-        nodeWidths
+        nodeWidths,
+        outputLanguage
       }
     }
 
@@ -96,7 +97,7 @@ export function useHistoryStorage(): Omit<HistoryStorageHook, 'saveHistory'> & {
 
   // 更新当前会话
   const updateCurrentSession = useCallback(() => {
-    const { nodes, edges, treeData: latestTreeData, selectedNode, nodeWidths } = useFlowStore.getState()
+    const { nodes, edges, treeData: latestTreeData, selectedNode, nodeWidths, outputLanguage } = useFlowStore.getState()
     const sessionId = currentSessionIdRef.current
     if (!sessionId || !latestTreeData) return
 
@@ -110,7 +111,8 @@ export function useHistoryStorage(): Omit<HistoryStorageHook, 'saveHistory'> & {
               edges,
               treeData: latestTreeData,
               selectedNode,
-              nodeWidths
+              nodeWidths,
+              outputLanguage
             }
           }
         : item
@@ -1,13 +1,33 @@
-import OpenAI from "openai";
+import { randomUUID } from "crypto";
 import { z } from "zod";
-import { AITreeNode, DecomposeResponse, JudgementResponse, TreeNode, WorkflowState, WorkflowEvent, DecomposeMode } from "@/types";
-import { 
-  JUDGEMENT_SYSTEM_PROMPT,
-  getDecomposerPrompt
-} from "./prompts";
-import { getProviderAndModelForAgent } from "./ai-config";
-
-// AGENT-004: 定义输出格式 JSON Schema
+import { AITreeNode, AnswerResponse, DecomposeResponse, JudgementResponse, TreeNode, WorkflowState, WorkflowEvent, DecomposeMode, WorkflowOptions, WorkflowBudget, BudgetLimit, TokenUsage, NodeJudgement, NodeDecomposition, DecompositionContext, TreeReview, ReviewIssue, ServedBy, ChildCountRange, ChildCountLimits, ChildOverflowPolicy, ApprovalDecision, RequestGate } from "@/types";
+import {
+  DEFAULT_MODE_ID,
+  ResolvedMode,
+  resolveMode,
+  buildDecomposeUserMessage,
+  buildJudgementUserMessage,
+  buildAnswerUserMessage,
+  buildCriticMessages,
+  buildChildCountCorrection,
+  buildRegroupLabel,
+  getDecomposerPromptVariant
+} from "./modes";
+import { AgentName, resolveWorkflowConcurrency, resolveWorkflowBudget, resolveChildCountLimits, getChildCountRange } from "./ai-config";
+import { ChatMessage, LLMProvider, createProviderForAgent } from "./llm-providers";
+import { EventChannel, runWithConcurrency } from "./concurrency";
+import { addUsage, createEmptyUsage, toTokenUsage } from "./usage";
+import { withRetry } from "./retry";
+import { parseJsonWithRepair } from "./json-repair";
+import { findNodeInTree, findNodePath, resetResumableLeaves } from "./tree-status";
+import { flagOverlappingChildren, mergeDuplicateChildren } from "./overlap";
+import { validateTreePatch } from "./tree-patch";
+import { parsePartialJson } from "./partial-json";
+import { createCacheKey, llmResponseCache } from "./llm-cache";
+import { zodToJsonSchema } from "./json-schema";
+import { orderPendingLeaves, resolveTraversalStrategy } from "./traversal";
+
+// AGENT-004: 定义输出格式 JSON Schema（校验模型输出，并转换为结构化输出的 JSON Schema 随请求发送）
 const TreeNodeSchema: z.ZodType<AITreeNode> = z.object({
   id: z.string(),
   label: z.string().optional(),
@@ -26,70 +46,204 @@ const JudgementResponseSchema = z.object({
   confidence: z.number().min(0).max(1),
 });
 
+const AnswerResponseSchema = z.object({
+  answer: z.string().min(1),
+});
+
+const TreePatchSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("add_child"), parentId: z.string(), content: z.string() }),
+  z.object({ op: z.literal("remove_node"), nodeId: z.string() }),
+  z.object({ op: z.literal("move_node"), nodeId: z.string(), newParentId: z.string() }),
+  z.object({ op: z.literal("update_content"), nodeId: z.string(), content: z.string() }),
+]);
+
+const ReviewResponseSchema = z.object({
+  summary: z.string(),
+  issues: z.array(z.object({
+    kind: z.enum(["missing_branch", "overlap", "wrong_nesting", "rule_violation"]),
+    nodeIds: z.array(z.string()),
+    description: z.string(),
+    patch: TreePatchSchema.nullable(),
+  })),
+});
+
+// AGENT-005: 结构化请求 - 瞬时错误重试、JSON 修复，校验失败时携带错误信息重问一次
+interface ValidatedJsonRequest<T> {
+  provider: LLMProvider;
+  agent: AgentName;
+  subject: string; // 本次处理的节点内容
+  messages: ChatMessage[];
+  schema: z.ZodType<T>;
+  temperature: number;
+  label: string; // 日志中使用的请求名称
+  onContent?: (content: string) => void; // 设置时以流式方式请求，回调累计的输出
+  bypassCache?: boolean; // 跳过缓存读取，结果仍写入缓存
+  signal?: AbortSignal; // 触发时中止进行中的请求，不再重试或重问
+  onProviderCall?: () => void | Promise<void>; // 每次向提供商发起请求前调用并等待（包括重试、重问与故障转移），抛出错误时不发起该请求
+}
+
+// Agent 调用的通用选项
+export interface AgentCallOptions {
+  bypassCache?: boolean; // 跳过响应缓存，强制请求模型
+  signal?: AbortSignal; // 取消信号，触发时立即中止进行中的请求
+  onProviderCall?: () => void | Promise<void>; // 每次向提供商发起请求前调用，用于按实际请求次数计入运行预算
+}
+
+// 分解调用的选项
+export interface DecomposeOptions extends AgentCallOptions {
+  childRange?: ChildCountRange; // 直接子项的数量范围
+  overflow?: ChildOverflowPolicy; // 超出上限时的处理，默认 reask
+}
+
+// 子项数量是否在范围内
+function isWithinChildRange(count: number, range: ChildCountRange): boolean {
+  return (range.min === undefined || count >= range.min) && (range.max === undefined || count <= range.max);
+}
+
+// 将 zod 校验错误整理为便于模型理解的说明
+function formatValidationError(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+// 解析并校验模型输出，失败时返回问题说明
+function parseValidatedJson<T>(content: string | null, schema: z.ZodType<T>, label: string): { data: T } | { problem: string } {
+  if (!content) {
+    return { problem: "返回内容为空" };
+  }
+  try {
+    const { value, repaired } = parseJsonWithRepair(content);
+    if (repaired) {
+      console.warn(`${label} 返回的 JSON 格式有误，已自动修复`);
+    }
+
+    const result = schema.safeParse(value);
+    if (result.success) {
+      return { data: result.data };
+    }
+    return { problem: `JSON 结构校验失败: ${formatValidationError(result.error)}` };
+  } catch (parseError) {
+    return { problem: parseError instanceof Error ? parseError.message : String(parseError) };
+  }
+}
+
+async function requestValidatedJson<T>(request: ValidatedJsonRequest<T>): Promise<{ data: T; usage: TokenUsage; servedBy: ServedBy; cached: boolean }> {
+  const { provider, agent, subject, schema, temperature, label, onContent, bypassCache, signal, onProviderCall } = request;
+  const messages = [...request.messages];
+  let usage = createEmptyUsage();
+
+  // 缓存键由提供商、模型、Agent 与完整消息（模式提示词、输入与上下文）决定
+  const cacheKey = createCacheKey({
+    provider: provider.name,
+    model: provider.model,
+    agent,
+    messages,
+    temperature,
+    responseFormat: "json_object",
+  });
+  if (!bypassCache) {
+    const entry = await llmResponseCache.get(cacheKey);
+    const cachedResult = entry ? parseValidatedJson(entry.content, schema, label) : null;
+    if (entry && cachedResult && "data" in cachedResult) {
+      console.log(`${label} 命中缓存: "${subject}"`);
+      onContent?.(entry.content);
+      const servedBy = entry.servedBy ?? { provider: provider.name, model: provider.model };
+      return { data: cachedResult.data, usage, servedBy, cached: true };
+    }
+  }
+
+  // 输出结构：支持结构化输出的提供商据此约束生成，其余提供商仍按提示词中的格式说明输出 JSON
+  const jsonSchema = { name: `${agent}_response`, schema: zodToJsonSchema(schema, { strict: true }) };
+
+  // 最多两次：首次请求 + 一次携带校验错误的重问
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const response = await withRetry(() => provider.createChatCompletion({
+      messages,
+      responseFormat: "json_object",
+      jsonSchema,
+      temperature,
+      agent,
+      subject,
+      onContent,
+      signal,
+      onProviderCall,
+    }), { label, signal });
+    // 故障转移时按实际提供服务的模型计价
+    usage = addUsage(usage, toTokenUsage(response.usage, response.pricing ?? provider.pricing));
+    const servedBy = { provider: response.provider, model: response.model };
+
+    const content = response.content;
+    console.log(`${label} AI 原始返回:`, content);
+
+    const result = parseValidatedJson(content, schema, label);
+    if ("data" in result) {
+      // 以原始请求为键缓存校验通过的输出（包括重问后修正的输出）
+      await llmResponseCache.set(cacheKey, { content: content!, usage: response.usage, servedBy, createdAt: Date.now() });
+      return { data: result.data, usage, servedBy, cached: false };
+    }
+    const problem = result.problem;
+
+    console.warn(`${label} 返回结果无效 (第 ${attempt + 1} 次): ${problem}`);
+    if (attempt === 0) {
+      // 重问：附上上一次的输出与校验错误，要求模型修正
+      messages.push(
+        { role: "assistant", content: content || "" },
+        { role: "user", content: `你上一次的输出无效：${problem}\n\n请修正这些问题，并严格按照系统提示中的 JSON 格式重新输出完整结果，不要添加任何其他内容。` }
+      );
+    } else {
+      throw new Error(`${label} 返回结果无效: ${problem}`);
+    }
+  }
+
+  throw new Error(`${label} 返回结果无效`);
+}
+
 // AGENT-001: 判断 Agent - 负责判断叶子节点是否可以直接回答
 export class JudgementAgent {
-  private client: OpenAI;
-  private model: string;
+  private provider: LLMProvider;
+
+  constructor(provider?: LLMProvider) {
+    // 未注入提供商时，使用为 'judgment' Agent 配置的提供商和模型
+    this.provider = provider ?? createProviderForAgent('judgment');
 
-  constructor() {
-    // 为 'judgment' Agent 获取特定的提供商和模型配置
-    const { providerConfig, modelConfig } = getProviderAndModelForAgent('judgment');
-    
-    this.client = new OpenAI({
-      apiKey: providerConfig.apiKey,
-      baseURL: providerConfig.baseURL,
-    });
-    this.model = modelConfig.id;
-    
     console.log(`JudgementAgent initialized with:
-      Provider: ${providerConfig.name}
-      Base URL: ${providerConfig.baseURL}
-      Model: ${this.model}`);
+      Provider: ${this.provider.name}
+      Model: ${this.provider.model}`);
   }
 
-  private getJudgementPrompt(nodeContent: string, originalTask: string = ""): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+  private getJudgementPrompt(nodeContent: string, originalTask: string, mode: ResolvedMode): ChatMessage[] {
     return [
       {
         role: "system",
-        content: JUDGEMENT_SYSTEM_PROMPT
+        content: mode.prompts.judgement
       },
       {
         role: "user",
-        content: `原始输入：${originalTask}\n\n当前待判断项：${nodeContent}\n\n请判断“当前待判断项”是否需要进一步分解。`
+        content: buildJudgementUserMessage(mode, nodeContent, originalTask)
       }
     ];
   }
 
-  async judgeNode(nodeContent: string, originalTask: string = ""): Promise<JudgementResponse> {
+  async judgeNode(nodeContent: string, originalTask: string = "", mode: ResolvedMode = resolveMode(DEFAULT_MODE_ID), options: AgentCallOptions = {}): Promise<JudgementResponse> {
     try {
       console.log(`开始判断节点: "${nodeContent}"`);
-      
-      const response = await this.client.chat.completions.create({
-        model: this.model,
-        messages: this.getJudgementPrompt(nodeContent, originalTask),
-        response_format: { type: "json_object" },
-        temperature: 0.3
-      });
 
-      const content = response.choices[0]?.message?.content;
-      console.log("判断 AI 原始返回:", content);
-      
-      if (!content) {
-        throw new Error("AI 没有返回判断结果");
-      }
-
-      let parsedJson;
-      try {
-        parsedJson = JSON.parse(content);
-        console.log("判断解析后的 JSON:", JSON.stringify(parsedJson, null, 2));
-      } catch (jsonError) {
-        console.error("判断 JSON 解析失败:", jsonError);
-        throw jsonError;
-      }
+      const { data: parsed, usage, servedBy, cached } = await requestValidatedJson({
+        provider: this.provider,
+        agent: 'judgment',
+        subject: nodeContent,
+        messages: this.getJudgementPrompt(nodeContent, originalTask, mode),
+        schema: JudgementResponseSchema,
+        temperature: 0.3,
+        label: "判断",
+        bypassCache: options.bypassCache,
+        signal: options.signal,
+        onProviderCall: options.onProviderCall
+      });
 
-      const parsed = JudgementResponseSchema.parse(parsedJson);
       console.log(`判断结果: ${parsed.canDirectlyAnswer}, 置信度: ${parsed.confidence}`);
-      return parsed;
+      return { ...parsed, usage, model: servedBy.model, servedBy, cached };
       
     } catch (error) {
       console.error("判断节点失败:", error);
@@ -100,27 +254,19 @@ export class JudgementAgent {
 
 // AGENT-002: 分解 Agent - 专门负责任务分解
 export class ProblemDecomposerAgent {
-  private client: OpenAI;
-  private model: string;
+  private provider: LLMProvider;
 
-  constructor() {
-    // 为 'decomposition' Agent 获取特定的提供商和模型配置
-    const { providerConfig, modelConfig } = getProviderAndModelForAgent('decomposition');
-
-    this.client = new OpenAI({
-      apiKey: providerConfig.apiKey,
-      baseURL: providerConfig.baseURL,
-    });
-    this.model = modelConfig.id;
+  constructor(provider?: LLMProvider) {
+    // 未注入提供商时，使用为 'decomposition' Agent 配置的提供商和模型
+    this.provider = provider ?? createProviderForAgent('decomposition');
 
     console.log(`ProblemDecomposerAgent initialized with:
-      Provider: ${providerConfig.name}
-      Base URL: ${providerConfig.baseURL}
-      Model: ${this.model}`);
+      Provider: ${this.provider.name}
+      Model: ${this.provider.model}`);
   }
 
-  private getDecomposePrompt(text: string, originalTask: string, mode: DecomposeMode, isRootDecomposition: boolean = true): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
-    const systemPrompt = getDecomposerPrompt(mode, isRootDecomposition);
+  private getDecomposePrompt(text: string, originalTask: string, mode: ResolvedMode, isRootDecomposition: boolean = true, context?: DecompositionContext, childRange?: ChildCountRange): ChatMessage[] {
+    const systemPrompt = isRootDecomposition ? mode.prompts.root : mode.prompts.sub;
 
     return [
       {
@@ -129,43 +275,127 @@ export class ProblemDecomposerAgent {
       },
       {
         role: "user",
-        content: isRootDecomposition 
-          ? `请分解以下内容：\n\n${text}`
-          : `原始输入：${originalTask}\n\n当前待分解项：${text}\n\n请将"当前待分解项"进行进一步分解，确保分解结果与"原始输入"的整体结构保持一致。`
+        content: buildDecomposeUserMessage(mode, text, originalTask, isRootDecomposition, context, childRange)
       }
     ];
   }
 
-  async decomposeTask(text: string, originalTask: string, mode: DecomposeMode = 'concept', isRootDecomposition: boolean = true): Promise<DecomposeResponse> {
-    console.log(`开始分解: "${text}", 原始输入: "${originalTask}", 模式: ${mode}, 是否为根分解: ${isRootDecomposition}`);
+  // 从流式输出中取出已写完内容的子项，作为分解完成前的预览
+  private extractPartialChildren(content: string): AITreeNode[] {
+    const partial = parsePartialJson(content) as { root?: { children?: unknown } } | undefined;
+    const children = Array.isArray(partial?.root?.children) ? partial.root.children : [];
+    return children
+      .filter((child): child is { id?: unknown; content: string } =>
+        !!child && typeof child === 'object' && typeof (child as { content?: unknown }).content === 'string' && !!(child as { content: string }).content.trim()
+      )
+      .map((child, index) => ({
+        id: typeof child.id === 'string' ? child.id : String(index + 1),
+        content: child.content,
+        children: null,
+      }));
+  }
+
+  // 将超出上限的子项均分为 max 组，多于一项的组归入合成的中间节点，单项的组保持原样
+  private regroupChildren(root: AITreeNode, max: number, mode: ResolvedMode): AITreeNode {
+    const children = root.children ?? [];
+    const baseSize = Math.floor(children.length / max);
+    const remainder = children.length % max;
+    const groups: AITreeNode[] = [];
+    let start = 0;
+    for (let i = 0; i < max; i++) {
+      const members = children.slice(start, start + baseSize + (i < remainder ? 1 : 0));
+      start += members.length;
+      groups.push(members.length === 1 ? members[0] : {
+        id: `group-${i + 1}`,
+        content: buildRegroupLabel(mode, members[0].content, members.length),
+        children: members,
+      });
+    }
+    return { ...root, children: groups };
+  }
+
+  /**
+   * 分解一个节点
+   * @param context 子项分解时的祖先路径与同级项，帮助模型避免与兄弟分支重复
+   * @param onPartial 设置时以流式方式请求，每当有新的子项写完时回调当前已写完的子项
+   * @param options 设置子项数量范围时写入提示词；结果不在范围内时重问一次，仍超出上限（或策略为 regroup）时归组
+   */
+  async decomposeTask(
+    text: string,
+    originalTask: string,
+    mode: ResolvedMode = resolveMode(DEFAULT_MODE_ID),
+    isRootDecomposition: boolean = true,
+    context?: DecompositionContext,
+    onPartial?: (children: AITreeNode[]) => void,
+    options: DecomposeOptions = {}
+  ): Promise<DecomposeResponse> {
+    console.log(`开始分解: "${text}", 原始输入: "${originalTask}", 模式: ${mode.id}, 语言: ${mode.language}, 是否为根分解: ${isRootDecomposition}`);
     
+    // 只在已写完的子项发生变化时回调，避免每个分片都触发界面更新
+    let lastPartial = '';
+    const onContent = onPartial && ((content: string) => {
+      const children = this.extractPartialChildren(content);
+      const key = JSON.stringify(children);
+      if (children.length === 0 || key === lastPartial) return;
+      lastPartial = key;
+      onPartial(children);
+    });
+
     try {
-      const response = await this.client.chat.completions.create({
-        model: this.model,
-        messages: this.getDecomposePrompt(text, originalTask, mode, isRootDecomposition),
-        response_format: { type: "json_object" },
-        temperature: 0.6
-      });
+      const { childRange } = options;
+      const messages = this.getDecomposePrompt(text, originalTask, mode, isRootDecomposition, context, childRange);
+      const request = {
+        provider: this.provider,
+        agent: 'decomposition' as const,
+        subject: text,
+        schema: DecomposeResponseSchema,
+        temperature: 0.6,
+        label: "分解",
+        onContent,
+        bypassCache: options.bypassCache,
+        signal: options.signal,
+        onProviderCall: options.onProviderCall
+      };
+      let { data: parsed, usage, servedBy, cached } = await requestValidatedJson({ ...request, messages });
 
-      const content = response.choices[0]?.message?.content;
-      console.log("AI 原始返回内容:", content);
-      
-      if (!content) {
-        throw new Error("AI 没有返回分解结果");
+      // 子项数量不在范围内时附上数量要求重问一次；超出上限且策略为 regroup 时直接归组，不再重问
+      const count = parsed.root.children?.length ?? 0;
+      const regroupDirectly = options.overflow === 'regroup' && childRange?.max !== undefined && count > childRange.max;
+      if (childRange && !isWithinChildRange(count, childRange) && !regroupDirectly) {
+        console.warn(`分解结果有 ${count} 个子项，不符合数量要求，重新请求`);
+        try {
+          const retry = await requestValidatedJson({
+            ...request,
+            messages: [
+              ...messages,
+              { role: "assistant", content: JSON.stringify(parsed) },
+              { role: "user", content: buildChildCountCorrection(mode, count, childRange) }
+            ]
+          });
+          parsed = retry.data;
+          usage = addUsage(usage, retry.usage);
+          servedBy = retry.servedBy;
+          cached = cached && retry.cached;
+        } catch (error) {
+          // 调用预算不足以重问：保留首次结果，按下方的上限与下限处理
+          if (!(error instanceof BudgetExceededError)) throw error;
+          console.warn(`调用预算已用尽，不再重问: ${error.message}`);
+        }
       }
 
-      let parsedJson;
-      try {
-        parsedJson = JSON.parse(content);
-        console.log("解析后的 JSON:", JSON.stringify(parsedJson, null, 2));
-      } catch (jsonError) {
-        console.error("JSON 解析失败:", jsonError);
-        throw jsonError;
+      let regrouped = false;
+      const finalCount = parsed.root.children?.length ?? 0;
+      if (childRange?.max !== undefined && finalCount > childRange.max) {
+        console.warn(`分解结果仍有 ${finalCount} 个子项，超出上限 ${childRange.max}，归入合成的中间节点`);
+        parsed = { ...parsed, root: this.regroupChildren(parsed.root, childRange.max, mode) };
+        regrouped = true;
+      } else if (childRange?.min !== undefined && finalCount < childRange.min) {
+        console.warn(`分解结果只有 ${finalCount} 个子项，少于下限 ${childRange.min}，保留原结果`);
       }
 
-      const parsed = DecomposeResponseSchema.parse(parsedJson);
-        console.log("Decomposition successful");
-      return { ...parsed, mode }; // 添加模式到返回结果
+      console.log("Decomposition successful");
+      // 添加模式、提示词变体、用量与缓存命中情况到返回结果
+      return { ...parsed, mode: mode.id, usage, promptVariant: getDecomposerPromptVariant(mode.id, isRootDecomposition), regrouped, servedBy, cached };
       
     } catch (error) {
       console.error("Decomposition failed:", error instanceof Error ? error.message : String(error));
@@ -174,26 +404,259 @@ export class ProblemDecomposerAgent {
   }
 }
 
+// AGENT-007: 解答 Agent - 为可直接回答的叶子节点生成解答（任务模式为具体操作说明，概念模式为讲解）
+export class AnswerAgent {
+  private provider: LLMProvider;
+
+  constructor(provider?: LLMProvider) {
+    // 未注入提供商时，使用为 'answer' Agent 配置的提供商和模型（未配置时沿用分解 Agent）
+    this.provider = provider ?? createProviderForAgent('answer');
+
+    console.log(`AnswerAgent initialized with:
+      Provider: ${this.provider.name}
+      Model: ${this.provider.model}`);
+  }
+
+  /**
+   * 为一个节点生成解答
+   * @param ancestors 从根节点到父节点的内容，作为解答的上下文
+   */
+  async answerNode(nodeContent: string, originalTask: string, ancestors: string[], mode: ResolvedMode = resolveMode(DEFAULT_MODE_ID), options: AgentCallOptions = {}): Promise<AnswerResponse> {
+    console.log(`开始解答节点: "${nodeContent}", 模式: ${mode.id}, 语言: ${mode.language}`);
+
+    const { data: parsed, usage, servedBy, cached } = await requestValidatedJson({
+      provider: this.provider,
+      agent: 'answer',
+      subject: nodeContent,
+      messages: [
+        { role: "system", content: mode.prompts.answer },
+        { role: "user", content: buildAnswerUserMessage(mode, nodeContent, originalTask, ancestors) }
+      ],
+      schema: AnswerResponseSchema,
+      temperature: 0.5,
+      label: "解答",
+      bypassCache: options.bypassCache,
+      signal: options.signal,
+      onProviderCall: options.onProviderCall
+    });
+
+    return { answer: parsed.answer, usage, model: servedBy.model, servedBy, cached };
+  }
+}
+
+// AGENT-006: 审阅 Agent - 审阅完成的整棵树，报告缺失分支、重叠、层级错误与命名问题，并给出补丁
+export class CriticAgent {
+  private provider: LLMProvider;
+
+  constructor(provider?: LLMProvider) {
+    // 未注入提供商时，使用为 'critic' Agent 配置的提供商和模型（未配置时沿用分解 Agent）
+    this.provider = provider ?? createProviderForAgent('critic');
+
+    console.log(`CriticAgent initialized with:
+      Provider: ${this.provider.name}
+      Model: ${this.provider.model}`);
+  }
+
+  // 将树转换为带节点ID的缩进大纲，供模型引用节点
+  private toOutline(node: TreeNode, depth: number = 0): string {
+    const line = `${'  '.repeat(depth)}- [${node.id}] ${node.content}`;
+    const children = node.children ?? [];
+    return [line, ...children.map(child => this.toOutline(child, depth + 1))].join('\n');
+  }
+
+  async reviewTree(tree: TreeNode, mode: ResolvedMode = resolveMode(DEFAULT_MODE_ID), options: AgentCallOptions = {}): Promise<TreeReview> {
+    console.log(`开始审阅: "${tree.content}", 模式: ${mode.id}, 语言: ${mode.language}`);
+
+    const { system, user } = buildCriticMessages(mode, this.toOutline(tree), tree.content);
+    const { data: parsed, usage, servedBy, cached } = await requestValidatedJson({
+      provider: this.provider,
+      agent: 'critic',
+      subject: tree.content,
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: user }
+      ],
+      schema: ReviewResponseSchema,
+      temperature: 0.3,
+      label: "审阅",
+      bypassCache: options.bypassCache,
+      signal: options.signal,
+      onProviderCall: options.onProviderCall
+    });
+
+    // 模型可能引用不存在的节点或给出非法操作：丢弃这类补丁，保留问题描述
+    const issues: ReviewIssue[] = parsed.issues.map((issue, index) => {
+      const problem = issue.patch ? validateTreePatch(tree, issue.patch) : null;
+      if (problem) {
+        console.warn(`审阅建议的补丁无效，已忽略: ${problem}`, issue.patch);
+      }
+      return {
+        id: `issue-${index + 1}`,
+        kind: issue.kind,
+        nodeIds: issue.nodeIds.filter(nodeId => !!findNodeInTree(tree, nodeId)),
+        description: issue.description,
+        patch: problem ? null : issue.patch,
+      };
+    });
+
+    console.log(`审阅完成: ${issues.length} 个问题`);
+    return { summary: parsed.summary, issues, usage, model: servedBy.model, servedBy, cached };
+  }
+}
+
+// 单次工作流运行的会话状态，每次 executeWorkflow 调用各自独立
+interface WorkflowSession {
+  runId: string;
+  shouldTerminate: boolean;
+  startedAt: number;
+  currentTree: TreeNode; // 本次运行的最新树，并发处理的节点结果都合并到这里
+  budget: WorkflowBudget; // 本次运行的预算
+  llmCalls: number; // 已向提供商发起的请求次数，包括重试、重问与故障转移，不含缓存命中
+  limitReached: BudgetLimit | null; // 结束运行的全局限制（节点数、调用次数、超时）
+  depthLimitHit: boolean; // 是否有叶子节点因深度限制停止
+  usage: TokenUsage; // 本次运行累计的 token 用量
+  bypassCache: boolean; // 本次运行跳过响应缓存
+  abortController: AbortController; // 客户端断开时中止本次运行进行中的请求
+  callSignal: AbortSignal; // 传给每次请求的取消信号：运行被中止或超过墙钟超时时触发
+  timeoutSignal: AbortSignal | null; // 墙钟超时信号，未设置超时时为 null
+  cacheHits: number; // 命中响应缓存的调用次数
+  childLimits?: ChildCountLimits; // 本次运行的子项数量限制
+  approvalMode: boolean; // 每次分解后等待用户审批
+  pendingApprovals: Map<string, (decision: ApprovalDecision) => void>; // 等待审批的节点ID及其唤醒函数
+  requestGate?: RequestGate; // 客户端连接断开期间挂起新的请求
+  detachListeners: () => void; // 移除会话在请求信号与超时信号上注册的监听器，运行结束时调用，避免信号持有已结束的会话
+}
+
+// 预算限制对应的说明文字
+const BUDGET_LIMIT_LABELS: Record<BudgetLimit, string> = {
+  max_depth: 'max depth',
+  max_nodes: 'max nodes',
+  max_llm_calls: 'max LLM calls',
+  timeout: 'timeout',
+};
+
+// 运行预算已耗尽，阻止了一次新的请求
+export class BudgetExceededError extends Error {
+  constructor(readonly limit: BudgetLimit) {
+    super(`${BUDGET_LIMIT_LABELS[limit]} reached`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
 // AGENT-003: 工作流控制器 - 协调整个分解流程
 export class WorkflowController {
   private decomposerAgent: ProblemDecomposerAgent;
   private judgementAgent: JudgementAgent;
-  private shouldTerminate: boolean = false;
+  private answerAgent: AnswerAgent;
+  // 正在运行的会话，按 runId 索引
+  private sessions = new Map<string, WorkflowSession>();
 
-  constructor() {
-    this.decomposerAgent = new ProblemDecomposerAgent();
-    this.judgementAgent = new JudgementAgent();
+  // 可注入 Agent（例如使用模拟提供商），便于离线运行完整流程
+  constructor(agents: { decomposerAgent?: ProblemDecomposerAgent; judgementAgent?: JudgementAgent; answerAgent?: AnswerAgent } = {}) {
+    this.decomposerAgent = agents.decomposerAgent ?? new ProblemDecomposerAgent();
+    this.judgementAgent = agents.judgementAgent ?? new JudgementAgent();
+    this.answerAgent = agents.answerAgent ?? new AnswerAgent();
   }
 
-  // 终止当前分解过程
-  terminateDecomposition(): void {
-    console.log('Received termination request');
-    this.shouldTerminate = true;
+  // 终止指定运行的分解过程并立即中止其进行中的请求，返回该运行是否存在
+  terminateDecomposition(runId: string): boolean {
+    const session = this.sessions.get(runId);
+    if (!session) {
+      console.log(`Termination requested for unknown run: ${runId}`);
+      return false;
+    }
+
+    console.log(`Received termination request for run: ${runId}`);
+    this.abortSession(session, 'termination requested');
+    return true;
   }
 
-  // 重置终止标志
-  private resetTerminationFlag(): void {
-    this.shouldTerminate = false;
+  // 提交用户对指定节点分解结果的审批，返回该节点是否正在等待审批
+  resolveApproval(runId: string, nodeId: string, decision: ApprovalDecision): boolean {
+    const resolve = this.sessions.get(runId)?.pendingApprovals.get(nodeId);
+    if (!resolve) {
+      console.log(`Approval submitted for unknown node: ${runId}/${nodeId}`);
+      return false;
+    }
+
+    console.log(`Received ${decision.action} for node ${nodeId} in run: ${runId}`);
+    resolve(decision);
+    return true;
+  }
+
+  // 唤醒所有等待审批的节点；调用方在唤醒后检查终止标志，不合并结果
+  private releasePendingApprovals(session: WorkflowSession): void {
+    const pending = [...session.pendingApprovals.values()];
+    session.pendingApprovals.clear();
+    pending.forEach(resolve => resolve({ action: 'reject' }));
+  }
+
+  // 等待用户对节点分解结果的审批
+  private waitForApproval(session: WorkflowSession, nodeId: string): Promise<ApprovalDecision> {
+    return new Promise(resolve => {
+      session.pendingApprovals.set(nodeId, decision => {
+        session.pendingApprovals.delete(nodeId);
+        resolve(decision);
+      });
+    });
+  }
+
+  // 为新的运行创建会话
+  private createSession(initialTree: TreeNode, options: WorkflowOptions): WorkflowSession {
+    const budget = resolveWorkflowBudget(options.budget);
+    const abortController = new AbortController();
+    // 超时在请求进行中到达时直接中止请求及其重试，而不是等到两次请求之间才检查
+    const timeoutSignal = budget.timeoutMs ? AbortSignal.timeout(budget.timeoutMs) : null;
+    const session: WorkflowSession = {
+      runId: randomUUID(),
+      shouldTerminate: false,
+      startedAt: Date.now(),
+      currentTree: initialTree,
+      budget,
+      llmCalls: 0,
+      limitReached: null,
+      depthLimitHit: false,
+      usage: createEmptyUsage(),
+      bypassCache: !!options.bypassCache,
+      abortController,
+      callSignal: timeoutSignal ? AbortSignal.any([abortController.signal, timeoutSignal]) : abortController.signal,
+      timeoutSignal,
+      cacheHits: 0,
+      childLimits: resolveChildCountLimits(options.childLimits),
+      approvalMode: !!options.approvalMode,
+      pendingApprovals: new Map(),
+      requestGate: options.requestGate,
+      detachListeners: () => {},
+    };
+    // 请求的取消信号（客户端断开）触发时终止本次运行，并立即中止进行中的请求
+    const onClientAbort = () => this.abortSession(session, 'client disconnected');
+    const onTimeout = () => {
+      if (!session.limitReached) {
+        console.log(`Run ${session.runId} reached budget limit: timeout`);
+        session.limitReached = 'timeout';
+      }
+    };
+    if (options.signal?.aborted) {
+      this.abortSession(session, 'client disconnected');
+    } else {
+      options.signal?.addEventListener('abort', onClientAbort, { once: true });
+    }
+    timeoutSignal?.addEventListener('abort', onTimeout, { once: true });
+    session.detachListeners = () => {
+      options.signal?.removeEventListener('abort', onClientAbort);
+      timeoutSignal?.removeEventListener('abort', onTimeout);
+    };
+    this.sessions.set(session.runId, session);
+    return session;
+  }
+
+  // 中止运行：不再发起新的调用，唤醒等待审批的节点，并中止进行中的请求
+  private abortSession(session: WorkflowSession, reason: string): void {
+    if (session.abortController.signal.aborted) return;
+    console.log(`Run ${session.runId} aborted: ${reason}`);
+    session.shouldTerminate = true;
+    this.releasePendingApprovals(session);
+    session.abortController.abort();
   }
 
   // 将 AI 节点转换为 TreeNode
@@ -208,6 +671,56 @@ export class WorkflowController {
     };
   }
 
+  // 提取分解响应中需要保存在父节点上的分解依据
+  private toNodeDecomposition(response: DecomposeResponse, mode: ResolvedMode, isRootDecomposition: boolean): NodeDecomposition {
+    return {
+      reasoning: response.reasoning,
+      mode: response.mode ?? mode.id,
+      promptVariant: response.promptVariant ?? getDecomposerPromptVariant(mode.id, isRootDecomposition),
+      language: mode.language,
+      servedBy: response.servedBy,
+      cached: response.cached,
+      regrouped: response.regrouped || undefined,
+    };
+  }
+
+  // 每次向提供商发起请求前计数（包括重试、故障转移、JSON 重问与子项数量重问，不含缓存命中）：调用次数已达上限时抛出预算错误，不发起请求
+  // 客户端连接断开期间先挂起，续连后再计数并发起；宽限期结束仍未续连时运行被中止，挂起的请求随之取消
+  private async countLLMCall(session: WorkflowSession): Promise<void> {
+    await session.requestGate?.wait(session.callSignal);
+    const { maxLLMCalls } = session.budget;
+    if (maxLLMCalls && session.llmCalls >= maxLLMCalls) {
+      session.limitReached = session.limitReached ?? 'max_llm_calls';
+      throw new BudgetExceededError('max_llm_calls');
+    }
+    session.llmCalls++;
+  }
+
+  // 请求因运行预算停止（调用次数耗尽，或超时中止了进行中的请求）时返回对应的限制，其他错误返回 null
+  private getBudgetStop(session: WorkflowSession, error: unknown): BudgetLimit | null {
+    if (error instanceof BudgetExceededError) return error.limit;
+    if (session.timeoutSignal?.aborted) return 'timeout';
+    return null;
+  }
+
+  // 本次运行的 Agent 调用选项
+  private getCallOptions(session: WorkflowSession): AgentCallOptions {
+    return {
+      bypassCache: session.bypassCache,
+      signal: session.callSignal,
+      onProviderCall: () => this.countLLMCall(session),
+    };
+  }
+
+  // 按节点所在深度组装本次运行的分解选项
+  private getDecomposeOptions(session: WorkflowSession, nodeId: string): DecomposeOptions {
+    return {
+      ...this.getCallOptions(session),
+      childRange: getChildCountRange(session.childLimits, this.getNodeDepth(session.currentTree, nodeId)),
+      overflow: session.childLimits?.overflow,
+    };
+  }
+
   // 确保节点ID唯一性的方法
   private ensureUniqueIds(node: TreeNode, existingTree: TreeNode, baseId: string): TreeNode {
     const allExistingIds = this.getAllNodeIds(existingTree);
@@ -237,6 +750,49 @@ export class WorkflowController {
     return assignUniqueId(node, baseId);
   }
 
+  // 保留父节点ID，子节点ID以父节点ID为前缀依次编号（如 root-1、root-1-2），与现有ID冲突时追加序号
+  private scopeChildIds(node: TreeNode, existingTree: TreeNode, parentId: string): TreeNode {
+    return {
+      ...node,
+      id: parentId,
+      children: node.children
+        ? node.children.map((child, index) => this.ensureUniqueIds(child, existingTree, `${parentId}-${index + 1}`))
+        : null
+    };
+  }
+
+  // 节点在树中的上下文：祖先路径与同级项内容，以及同一父节点下其他分支中的所有节点
+  private getSiblingContext(tree: TreeNode, nodeId: string): { context: DecompositionContext; siblingNodes: TreeNode[] } {
+    const path = findNodePath(tree, nodeId);
+    const parent = path.length > 1 ? path[path.length - 2] : null;
+    const siblings = parent?.children?.filter(child => child.id !== nodeId) ?? [];
+    return {
+      context: {
+        ancestors: path.slice(0, -1).map(node => node.content),
+        siblings: siblings.map(sibling => sibling.content),
+      },
+      siblingNodes: siblings.flatMap(sibling => this.getAllNodes(sibling)),
+    };
+  }
+
+  // 分配子节点ID并检查重叠：先合并与兄弟分支完全重复的子节点，分配ID后再标记内容相近的子节点
+  private scopeAndCheckChildren(node: TreeNode, existingTree: TreeNode, parentId: string): TreeNode {
+    const { siblingNodes } = this.getSiblingContext(existingTree, parentId);
+    const { children, merged } = mergeDuplicateChildren(node.children ?? [], siblingNodes);
+    if (merged.length > 0) {
+      console.log(`节点 ${parentId} 合并了重复的子节点:`, merged);
+    }
+
+    const scoped = this.scopeChildIds({ ...node, children: node.children ? children : null }, existingTree, parentId);
+    return {
+      ...scoped,
+      children: scoped.children ? flagOverlappingChildren(scoped.children, siblingNodes) : null,
+      decomposition: scoped.decomposition && merged.length > 0
+        ? { ...scoped.decomposition, mergedDuplicates: merged }
+        : scoped.decomposition,
+    };
+  }
+
   // 获取树中所有节点的ID
   private getAllNodeIds(node: TreeNode): Set<string> {
     const ids = new Set<string>();
@@ -298,10 +854,13 @@ export class WorkflowController {
   }
 
   // 创建工作流状态
-  private createWorkflowState(tree: TreeNode): WorkflowState {
+  private createWorkflowState(session: WorkflowSession): WorkflowState {
+    const tree = session.currentTree;
     const allNodes = this.getAllNodes(tree);
     const pendingNodes = allNodes.filter(node => node.status === 'pending' || node.status === 'need_decomposition');
-    const completedNodes = allNodes.filter(node => node.status === 'completed' || node.status === 'can_answer');
+    const completedNodes = allNodes.filter(node =>
+      node.status === 'completed' || node.status === 'can_answer' || node.status === 'limit_reached' || node.status === 'failed'
+    );
     
     return {
       currentTree: tree,
@@ -309,7 +868,9 @@ export class WorkflowController {
       completedNodes,
       totalNodes: allNodes.length,
       processedNodes: completedNodes.length,
-      isComplete: pendingNodes.length === 0
+      isComplete: pendingNodes.length === 0,
+      usage: session.usage,
+      cacheHits: session.cacheHits
     };
   }
 
@@ -324,203 +885,708 @@ export class WorkflowController {
     return nodes;
   }
 
-  // 主要的工作流执行方法
-  async* executeWorkflow(inputText: string, mode: DecomposeMode = 'concept'): AsyncGenerator<WorkflowEvent> {
-    try {
-      // 重置终止标志
-      this.resetTerminationFlag();
+  // 获取节点在树中的深度（根节点为 0），找不到时返回 -1
+  private getNodeDepth(tree: TreeNode, nodeId: string, depth: number = 0): number {
+    if (tree.id === nodeId) {
+      return depth;
+    }
+    if (tree.children) {
+      for (const child of tree.children) {
+        const found = this.getNodeDepth(child, nodeId, depth + 1);
+        if (found >= 0) return found;
+      }
+    }
+    return -1;
+  }
 
-      // 1. 开始工作流
-      let currentTree: TreeNode = {
-        id: 'root',
-        content: inputText,
-        children: null,
-        expanded: false,
-        status: 'pending',
-        isLeaf: true,
-      };
+  // 检查全局预算（节点数、调用次数、超时），返回首个被触发的限制
+  private checkRunBudget(session: WorkflowSession): BudgetLimit | null {
+    if (session.limitReached) {
+      return session.limitReached;
+    }
 
-      yield {
-        type: 'start',
-        message: `Starting analysis task (${mode === 'task' ? 'task mode' : 'concept mode'})...`,
-        state: this.createWorkflowState(currentTree)
-      };
+    const { budget } = session;
+    let limit: BudgetLimit | null = null;
+    if (budget.timeoutMs && Date.now() - session.startedAt >= budget.timeoutMs) {
+      limit = 'timeout';
+    } else if (budget.maxLLMCalls && session.llmCalls >= budget.maxLLMCalls) {
+      limit = 'max_llm_calls';
+    } else if (budget.maxNodes && this.getAllNodes(session.currentTree).length >= budget.maxNodes) {
+      limit = 'max_nodes';
+    }
 
-      // 2. 初始分解
-      yield {
-        type: 'decompose_node',
-        nodeId: 'root',
-        message: 'Decomposing root task...',
-        state: this.createWorkflowState(currentTree)
-      };
+    if (limit) {
+      console.log(`Run ${session.runId} reached budget limit: ${limit}`);
+      session.limitReached = limit;
+    }
+    return limit;
+  }
 
-      // 检查是否需要终止
-      if (this.shouldTerminate) {
-        yield {
-          type: 'terminated',
-          finalTree: currentTree,
-          message: '分解过程已终止',
-          state: this.createWorkflowState(currentTree)
-        };
+  // 按剩余节点额度截断新分解出的子节点，返回截断后的节点
+  private fitChildrenToNodeBudget(session: WorkflowSession, node: TreeNode, replacedNodeId: string): TreeNode {
+    const { maxNodes } = session.budget;
+    if (!maxNodes || !node.children) {
+      return node;
+    }
+
+    // 新节点替换原叶子节点，因此只有子节点会增加总数
+    const currentCount = this.getAllNodes(session.currentTree).length;
+    const remaining = Math.max(0, maxNodes - currentCount);
+    if (node.children.length <= remaining) {
+      return node;
+    }
+
+    console.log(`节点 ${replacedNodeId} 的子节点超出节点预算，保留 ${remaining}/${node.children.length} 个`);
+    session.limitReached = 'max_nodes';
+    const children = node.children.slice(0, remaining);
+    return {
+      ...node,
+      children: children.length > 0 ? children : null,
+      isLeaf: children.length === 0,
+    };
+  }
+
+  // 将叶子节点标记为因预算限制停止
+  private markLimitReached(session: WorkflowSession, leafNode: TreeNode, limit: BudgetLimit, emit: (event: WorkflowEvent) => void): void {
+    session.currentTree = this.updateNodeInTree(session.currentTree, leafNode.id, {
+      status: 'limit_reached',
+      limitReached: limit
+    });
+
+    emit({
+      type: 'limit_reached',
+      nodeId: leafNode.id,
+      limit,
+      message: `Node "${leafNode.content}" stopped: ${BUDGET_LIMIT_LABELS[limit]} reached`,
+      state: this.createWorkflowState(session)
+    });
+  }
+
+  // 将叶子节点标记为处理失败，保留错误信息以便界面展示与重试
+  private markNodeFailed(session: WorkflowSession, leafNode: TreeNode, stage: 'judge' | 'decompose', error: unknown, emit: (event: WorkflowEvent) => void): void {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`节点 "${leafNode.content}" ${stage === 'judge' ? '判断' : '分解'}失败:`, errorMessage);
+
+    session.currentTree = this.updateNodeInTree(session.currentTree, leafNode.id, {
+      status: 'failed',
+      error: errorMessage
+    });
+
+    emit({
+      type: 'node_failed',
+      nodeId: leafNode.id,
+      error: errorMessage,
+      message: `Node "${leafNode.content}" ${stage === 'judge' ? 'judgement' : 'decomposition'} failed`,
+      state: this.createWorkflowState(session)
+    });
+  }
+
+  // 处理单个叶子节点：判断是否可直接回答，否则进一步分解
+  // 节点结果在完成时合并到 session.currentTree，事件通过 emit 按发生顺序推送
+  private async processLeafNode(
+    session: WorkflowSession,
+    leafNode: TreeNode,
+    inputText: string,
+    mode: ResolvedMode,
+    emit: (event: WorkflowEvent) => void
+  ): Promise<void> {
+    // 已达到最大深度的叶子节点不再判断或分解
+    const { maxDepth } = session.budget;
+    if (maxDepth && this.getNodeDepth(session.currentTree, leafNode.id) >= maxDepth) {
+      session.depthLimitHit = true;
+      this.markLimitReached(session, leafNode, 'max_depth', emit);
+      return;
+    }
+
+    const judgeLimit = this.checkRunBudget(session);
+    if (judgeLimit) {
+      this.markLimitReached(session, leafNode, judgeLimit, emit);
+      return;
+    }
+
+    // 4. 判断节点是否可以直接回答
+    emit({
+      type: 'judge_node',
+      nodeId: leafNode.id,
+      result: false,
+      message: `Judging node "${leafNode.content}"...`,
+      state: this.createWorkflowState(session)
+    });
+
+    let judgement: JudgementResponse;
+    try {
+      judgement = await this.judgementAgent.judgeNode(leafNode.content, inputText, mode, this.getCallOptions(session));
+    } catch (error) {
+      // 运行被中止时保持节点不变，以便续跑
+      if (session.shouldTerminate) return;
+      // 调用次数在重试或重问时耗尽，或超时中止了请求：按预算停止，而不是标记为失败
+      const limit = this.getBudgetStop(session, error);
+      if (limit) {
+        this.markLimitReached(session, leafNode, limit, emit);
         return;
       }
+      // 重试与修复后仍失败：标记为失败，而不是中断整个运行
+      this.markNodeFailed(session, leafNode, 'judge', error, emit);
+      this.emitProgress(session, emit);
+      return;
+    }
+    // 记录判断调用的用量：累加到本次运行与该节点
+    session.usage = addUsage(session.usage, judgement.usage);
+    if (judgement.cached) session.cacheHits++;
+    const nodeUsage = addUsage(leafNode.usage, judgement.usage);
+    // 保存判断依据，节点之后被分解、限制或失败时仍可查看
+    const nodeJudgement: NodeJudgement = {
+      canDirectlyAnswer: judgement.canDirectlyAnswer,
+      reasoning: judgement.reasoning,
+      confidence: judgement.confidence,
+      model: judgement.model ?? 'unknown',
+      provider: judgement.servedBy?.provider,
+      cached: judgement.cached
+    };
+    session.currentTree = this.updateNodeInTree(session.currentTree, leafNode.id, {
+      judgement: nodeJudgement,
+      usage: nodeUsage
+    });
+    
+    if (judgement.canDirectlyAnswer) {
+      // 标记为可以直接回答
+      session.currentTree = this.updateNodeInTree(session.currentTree, leafNode.id, {
+        status: 'can_answer',
+        canDirectlyAnswer: true
+      });
 
-      const rootDecomposition = await this.decomposerAgent.decomposeTask(inputText, inputText, mode, true);
-      let newRootTree = this.convertToTreeNode(rootDecomposition.root, 'pending');
-      
-      // 对于根节点，我们需要保持 'root' 作为主ID，但确保子节点ID唯一
-      if (newRootTree.children) {
-        newRootTree = {
-          ...newRootTree,
-          id: 'root', // 保持根节点ID
-          children: newRootTree.children.map((child, index) => 
-            this.ensureUniqueIds(child, currentTree, `root-${index + 1}`)
-          )
+      emit({
+        type: 'judge_node',
+        nodeId: leafNode.id,
+        result: true,
+        cached: judgement.cached,
+        servedBy: judgement.servedBy,
+        message: `Node "${leafNode.content}" can directly answer${judgement.cached ? ' (cached)' : ''}`,
+        state: this.createWorkflowState(session)
+      });
+    } else if (session.shouldTerminate) {
+      // 判断期间收到终止请求，不再发起新的分解
+      return;
+    } else if (this.checkRunBudget(session)) {
+      // 判断完成后预算已耗尽，保留为叶子节点
+      this.markLimitReached(session, leafNode, session.limitReached!, emit);
+    } else {
+      // 需要进一步分解
+      emit({
+        type: 'decompose_node',
+        nodeId: leafNode.id,
+        message: `Decomposing node "${leafNode.content}"...`,
+        state: this.createWorkflowState(session)
+      });
+
+      try {
+        const { context } = this.getSiblingContext(session.currentTree, leafNode.id);
+        const nodeDecomposition = await this.decomposeWithApproval(session, leafNode, bypassCache =>
+          this.decomposerAgent.decomposeTask(
+            leafNode.content, inputText, mode, false, context,
+            children => emit(this.createPartialUpdate(session, leafNode, children)),
+            { ...this.getDecomposeOptions(session, leafNode.id), bypassCache }
+          ), emit);
+        if (!nodeDecomposition) {
+          // 等待审批期间收到终止请求时保持节点不变，以便续跑
+          if (!session.shouldTerminate) {
+            this.markDecompositionRejected(session, leafNode, emit);
+            this.emitProgress(session, emit);
+          }
+          return;
+        }
+        let newNode = this.convertToTreeNode(nodeDecomposition.root, 'pending');
+        newNode.usage = addUsage(nodeUsage, nodeDecomposition.usage);
+        newNode.judgement = nodeJudgement;
+        newNode.decomposition = this.toNodeDecomposition(nodeDecomposition, mode, false);
+        
+        // 保留原节点的ID与内容；子节点ID基于最新的树分配（其他并发节点可能已先行合并），并与兄弟分支去重
+        newNode = this.scopeAndCheckChildren({ ...newNode, content: leafNode.content }, session.currentTree, leafNode.id);
+        const fittedNode = this.fitChildrenToNodeBudget(session, newNode, leafNode.id);
+        fittedNode.expanded = true;
+
+        if (newNode.children && !fittedNode.children) {
+          // 节点额度已用尽，新的子节点无法加入
+          this.markLimitReached(session, leafNode, 'max_nodes', emit);
+        } else {
+          session.currentTree = this.replaceNodeInTree(session.currentTree, leafNode.id, fittedNode);
+
+          emit({
+            type: 'update_tree',
+            tree: session.currentTree,
+            cached: nodeDecomposition.cached,
+            servedBy: nodeDecomposition.servedBy,
+            message: `Node "${leafNode.content}" decomposition completed${nodeDecomposition.cached ? ' (cached)' : ''}`,
+            state: this.createWorkflowState(session)
+          });
+        }
+      } catch (error) {
+        if (session.shouldTerminate) return;
+        const limit = this.getBudgetStop(session, error);
+        if (limit) {
+          this.markLimitReached(session, leafNode, limit, emit);
+        } else {
+          // 分解失败：判断结果与用量已保留，标记为失败以便重试
+          this.markNodeFailed(session, leafNode, 'decompose', error, emit);
+        }
+      }
+    }
+
+    this.emitProgress(session, emit);
+  }
+
+  // 为可直接回答的叶子节点生成解答；预算耗尽或收到终止请求时跳过，解答失败不影响节点状态
+  private async answerLeafNode(
+    session: WorkflowSession,
+    leafNode: TreeNode,
+    inputText: string,
+    mode: ResolvedMode,
+    emit: (event: WorkflowEvent) => void
+  ): Promise<void> {
+    if (session.shouldTerminate || this.checkRunBudget(session)) {
+      return;
+    }
+
+    emit({
+      type: 'answer_node',
+      nodeId: leafNode.id,
+      message: `Answering node "${leafNode.content}"...`,
+      state: this.createWorkflowState(session)
+    });
+
+    try {
+      const ancestors = findNodePath(session.currentTree, leafNode.id).slice(0, -1).map(node => node.content);
+      const response = await this.answerAgent.answerNode(leafNode.content, inputText, ancestors, mode, this.getCallOptions(session));
+      session.usage = addUsage(session.usage, response.usage);
+      if (response.cached) session.cacheHits++;
+      // 以最新的树中的节点为准，其用量可能已被其他结果更新
+      const current = findNodeInTree(session.currentTree, leafNode.id) ?? leafNode;
+      session.currentTree = this.updateNodeInTree(session.currentTree, leafNode.id, {
+        answer: { content: response.answer, model: response.model ?? 'unknown', provider: response.servedBy?.provider, language: mode.language },
+        usage: addUsage(current.usage, response.usage)
+      });
+
+      emit({
+        type: 'update_tree',
+        tree: session.currentTree,
+        cached: response.cached,
+        servedBy: response.servedBy,
+        message: `Node "${leafNode.content}" answered${response.cached ? ' (cached)' : ''}`,
+        state: this.createWorkflowState(session)
+      });
+    } catch (error) {
+      console.error(`节点 "${leafNode.content}" 解答失败:`, error instanceof Error ? error.message : String(error));
+      emit({
+        type: 'answer_node',
+        nodeId: leafNode.id,
+        message: `Answering node "${leafNode.content}" failed`,
+        state: this.createWorkflowState(session)
+      });
+    }
+  }
+
+  // 将分解出的子项转换为预览节点，ID 与最终分配的子节点ID一致
+  private toPreviewChildren(node: TreeNode, children: AITreeNode[], status: TreeNode['status']): TreeNode[] {
+    return children.map((child, index) => ({
+      id: `${node.id}-${index + 1}`,
+      content: child.content,
+      children: null,
+      expanded: false,
+      status,
+      isLeaf: true,
+    }));
+  }
+
+  // 将流式分解中已写完的子项转换为预览更新
+  private createPartialUpdate(session: WorkflowSession, node: TreeNode, children: AITreeNode[]): WorkflowEvent {
+    return {
+      type: 'partial_update',
+      nodeId: node.id,
+      children: this.toPreviewChildren(node, children, 'processing'),
+      message: `Decomposing node "${node.content}"... (${children.length} so far)`,
+      state: this.createWorkflowState(session)
+    };
+  }
+
+  /**
+   * 分解节点，审批模式下每次得到结果后推送 approval_required 并等待用户决定
+   * - accept / edit：返回分解结果（edit 时子项替换为用户编辑的内容），用量包含重新生成的调用
+   * - regenerate：跳过响应缓存重新分解，再次等待审批；预算耗尽时保留当前结果继续等待
+   * - reject、edit 后没有子项，或等待期间收到终止请求：返回 null
+   * 每次调用的用量与缓存命中计入本次运行，调用次数在向提供商发起请求时计入
+   * @param decompose 发起一次分解，参数为是否跳过响应缓存
+   */
+  private async decomposeWithApproval(
+    session: WorkflowSession,
+    node: TreeNode,
+    decompose: (bypassCache: boolean) => Promise<DecomposeResponse>,
+    emit: (event: WorkflowEvent) => void
+  ): Promise<DecomposeResponse | null> {
+    let usage = createEmptyUsage();
+    const request = async (bypassCache: boolean): Promise<DecomposeResponse> => {
+      const result = await decompose(bypassCache);
+      session.usage = addUsage(session.usage, result.usage);
+      if (result.cached) session.cacheHits++;
+      usage = addUsage(usage, result.usage);
+      return result;
+    };
+
+    let response = await request(session.bypassCache);
+    let message = `Waiting for approval of "${node.content}" decomposition`;
+    while (session.approvalMode) {
+      emit({
+        type: 'approval_required',
+        nodeId: node.id,
+        children: this.toPreviewChildren(node, response.root.children ?? [], 'proposed'),
+        reasoning: response.reasoning,
+        message,
+        state: this.createWorkflowState(session)
+      });
+
+      const decision = await this.waitForApproval(session, node.id);
+      if (session.shouldTerminate || decision.action === 'reject') {
+        return null;
+      }
+      if (decision.action === 'regenerate') {
+        const limit = this.checkRunBudget(session);
+        if (limit) {
+          message = `Cannot regenerate "${node.content}": ${BUDGET_LIMIT_LABELS[limit]} reached`;
+        } else {
+          emit({
+            type: 'decompose_node',
+            nodeId: node.id,
+            message: `Regenerating decomposition of "${node.content}"...`,
+            state: this.createWorkflowState(session)
+          });
+          response = await request(true);
+          message = `Waiting for approval of "${node.content}" decomposition`;
+        }
+        continue;
+      }
+      if (decision.action === 'edit') {
+        const contents = (decision.children ?? []).map(content => content.trim()).filter(Boolean);
+        if (contents.length === 0) {
+          return null;
+        }
+        response = {
+          ...response,
+          root: { ...response.root, children: contents.map((content, index) => ({ id: String(index + 1), content, children: null })) }
         };
       }
-      
-      currentTree = newRootTree;
-      currentTree.expanded = true;
+      break;
+    }
+
+    return { ...response, usage };
+  }
+
+  // 用户拒绝了节点的分解结果：保留为已完成的叶子节点，续跑时不再分解
+  private markDecompositionRejected(session: WorkflowSession, node: TreeNode, emit: (event: WorkflowEvent) => void): void {
+    session.currentTree = this.updateNodeInTree(session.currentTree, node.id, {
+      children: null,
+      status: 'completed',
+      isLeaf: true
+    });
+
+    emit({
+      type: 'update_tree',
+      tree: session.currentTree,
+      message: `Decomposition of "${node.content}" rejected`,
+      state: this.createWorkflowState(session)
+    });
+  }
+
+  // 推送当前进度
+  private emitProgress(session: WorkflowSession, emit: (event: WorkflowEvent) => void): void {
+    const state = this.createWorkflowState(session);
+    const progress = Math.round((state.processedNodes / state.totalNodes) * 100);
+    
+    emit({
+      type: 'progress',
+      progress,
+      message: `Processing progress: ${state.processedNodes}/${state.totalNodes}`,
+      state
+    });
+  }
+
+  // 主要的工作流执行方法
+  async* executeWorkflow(inputText: string, mode: DecomposeMode = DEFAULT_MODE_ID, options: WorkflowOptions = {}): AsyncGenerator<WorkflowEvent> {
+    // 每次运行拥有独立的会话，终止请求只影响本次运行
+    const session = this.createSession({
+      id: 'root',
+      content: inputText,
+      children: null,
+      expanded: false,
+      status: 'pending',
+      isLeaf: true,
+    }, options);
+
+    yield* this.runSession(session, inputText, mode, options, 'start');
+  }
+
+  // 从已保存的树继续分解：只处理待处理、未判断、失败或因预算停止的叶子节点，已判断与已完成的节点保持不变
+  async* resumeWorkflow(tree: TreeNode, mode: DecomposeMode = DEFAULT_MODE_ID, options: WorkflowOptions = {}): AsyncGenerator<WorkflowEvent> {
+    const session = this.createSession(resetResumableLeaves(tree), options);
+
+    yield* this.runSession(session, tree.content, mode, options, 'resume');
+  }
+
+  // 在完整树的上下文中重新分解指定节点：使用真实的原始输入与子项分解提示词，只处理该节点的子树，其余部分保持不变
+  async* redecomposeNode(tree: TreeNode, nodeId: string, mode: DecomposeMode = DEFAULT_MODE_ID, options: WorkflowOptions = {}): AsyncGenerator<WorkflowEvent> {
+    const target = findNodeInTree(tree, nodeId);
+    if (!target) {
+      yield { type: 'error', error: `Node ${nodeId} not found` };
+      return;
+    }
+
+    // 清除目标节点原有的子树与处理结果，由本次运行重新分解
+    const resetTree = this.replaceNodeInTree(tree, nodeId, {
+      ...target,
+      children: null,
+      status: 'pending',
+      isLeaf: true,
+      error: undefined,
+      limitReached: undefined,
+      decomposition: undefined,
+    });
+    const session = this.createSession(resetTree, options);
 
+    yield* this.runSession(session, tree.content, mode, options, 'redecompose', nodeId);
+  }
+
+  // 执行一次运行：范围节点尚未分解时先分解它，然后逐轮处理范围内待处理的叶子节点
+  // scopeNodeId 默认为根节点；重新分解时为目标节点，范围外的叶子节点不受影响
+  private async* runSession(
+    session: WorkflowSession,
+    inputText: string,
+    modeId: DecomposeMode,
+    options: WorkflowOptions,
+    kind: 'start' | 'resume' | 'redecompose',
+    scopeNodeId: string = session.currentTree.id
+  ): AsyncGenerator<WorkflowEvent> {
+    try {
+      // 解析模式定义：内置模式或请求携带的自定义模式
+      const mode = resolveMode(modeId, options.customModes, options.language);
+      const concurrency = resolveWorkflowConcurrency(options.concurrency);
+      const scopeNode = findNodeInTree(session.currentTree, scopeNodeId);
+      if (!scopeNode) {
+        throw new Error(`Node ${scopeNodeId} not found`);
+      }
+      const isRootDecomposition = scopeNodeId === session.currentTree.id;
+      const modeLabel = `${mode.label} mode`;
+
+      // 1. 开始工作流
       yield {
-        type: 'update_tree',
-        tree: currentTree,
-        message: 'Root task decomposition completed',
-        state: this.createWorkflowState(currentTree)
+        type: 'start',
+        runId: session.runId,
+        message: kind === 'redecompose'
+          ? `Re-decomposing node "${scopeNode.content}" (${modeLabel})...`
+          : `${kind === 'resume' ? 'Resuming' : 'Starting'} analysis task (${modeLabel})...`,
+        state: this.createWorkflowState(session)
       };
 
+      // 范围节点尚未分解时（新运行、重新分解，或上次运行在根分解前中断）先进行分解
+      if (!scopeNode.children || scopeNode.children.length === 0) {
+        // 2. 初始分解
+        yield {
+          type: 'decompose_node',
+          nodeId: scopeNodeId,
+          message: isRootDecomposition ? 'Decomposing root task...' : `Decomposing node "${scopeNode.content}"...`,
+          state: this.createWorkflowState(session)
+        };
+
+        // 检查是否需要终止
+        if (session.shouldTerminate) {
+          yield {
+            type: 'terminated',
+            finalTree: session.currentTree,
+            message: '分解过程已终止',
+            state: this.createWorkflowState(session)
+          };
+          return;
+        }
+
+        const { context } = this.getSiblingContext(session.currentTree, scopeNodeId);
+        // 分解与审批期间经由通道推送流式预览与审批请求，分解结束后通道关闭
+        const channel = new EventChannel<WorkflowEvent>();
+        let decomposition: DecomposeResponse | null | undefined;
+        this.decomposeWithApproval(session, scopeNode, bypassCache =>
+          this.decomposerAgent.decomposeTask(
+            scopeNode.content, inputText, mode, isRootDecomposition, context,
+            children => channel.push(this.createPartialUpdate(session, scopeNode, children)),
+            { ...this.getDecomposeOptions(session, scopeNodeId), bypassCache }
+          ), event => channel.push(event)
+        ).then(result => {
+          decomposition = result;
+          channel.close();
+        }, error => channel.fail(error));
+
+        for await (const event of channel) {
+          yield event;
+        }
+        if (decomposition === undefined) {
+          throw new Error(`Node ${scopeNodeId} decomposition failed`);
+        }
+
+        if (decomposition === null) {
+          // 范围节点的分解被拒绝：保留为叶子节点，不再处理其子树；等待审批时被终止则由下方的终止检查反馈
+          if (!session.shouldTerminate) {
+            const rejected: WorkflowEvent[] = [];
+            this.markDecompositionRejected(session, scopeNode, event => rejected.push(event));
+            yield* rejected;
+          }
+        } else {
+          let newNode = this.convertToTreeNode(decomposition.root, 'pending');
+          newNode.usage = addUsage(scopeNode.usage, decomposition.usage);
+          newNode.decomposition = this.toNodeDecomposition(decomposition, mode, isRootDecomposition);
+          newNode.judgement = scopeNode.judgement;
+
+          // 保留范围节点的ID与内容，子节点ID以其为前缀分配
+          newNode = this.scopeAndCheckChildren({ ...newNode, content: scopeNode.content }, session.currentTree, scopeNodeId);
+          const fittedNode = this.fitChildrenToNodeBudget(session, newNode, scopeNodeId);
+          fittedNode.expanded = true;
+          session.currentTree = this.replaceNodeInTree(session.currentTree, scopeNodeId, fittedNode);
+
+          yield {
+            type: 'update_tree',
+            tree: session.currentTree,
+            cached: decomposition.cached,
+            servedBy: decomposition.servedBy,
+            message: `${isRootDecomposition ? 'Root task decomposition completed' : `Node "${scopeNode.content}" decomposition completed`}${decomposition.cached ? ' (cached)' : ''}`,
+            state: this.createWorkflowState(session)
+          };
+        }
+      }
+
       // 3. 迭代处理叶子节点
+      // 广度优先每轮处理全部待处理叶子；深度优先与最佳优先每轮按顺序取一批（数量为并发数），处理完再重新排序
+      const strategy = resolveTraversalStrategy(options.strategy);
       let iterationCount = 0;
-      const maxIterations = 10; // 防止无限循环
+      const maxIterations = 10; // 防止无限循环：广度优先限制轮数，其他策略限制相对范围节点的深度
 
-      while (iterationCount < maxIterations) {
+      while (strategy !== 'breadth' || iterationCount < maxIterations) {
         // 检查是否需要终止
-        if (this.shouldTerminate) {
+        if (session.shouldTerminate) {
           yield {
             type: 'terminated',
-            finalTree: currentTree,
+            finalTree: session.currentTree,
             message: 'Decomposition process terminated, keeping current result',
-            state: this.createWorkflowState(currentTree)
+            state: this.createWorkflowState(session)
           };
           return;
         }
 
-        const leafNodes = this.getLeafNodes(currentTree);
-        const pendingLeafNodes = leafNodes.filter(node => 
-          node.status === 'pending' && node.isLeaf
-        );
+        // 只处理范围节点子树内的叶子节点
+        const scopeRoot = findNodeInTree(session.currentTree, scopeNodeId) ?? session.currentTree;
+        const pendingLeafNodes = strategy === 'breadth'
+          ? orderPendingLeaves(scopeRoot, strategy)
+          : orderPendingLeaves(scopeRoot, strategy, maxIterations).slice(0, concurrency);
 
         if (pendingLeafNodes.length === 0) {
           break; // 所有节点都已处理完成
         }
 
-        for (const leafNode of pendingLeafNodes) {
+        // 同一轮的叶子节点并发处理，事件经由通道按发生顺序流出
+        const channel = new EventChannel<WorkflowEvent>();
+        const processing = runWithConcurrency(pendingLeafNodes, concurrency, async (leafNode) => {
           // 在每个节点处理前检查终止标志
-          if (this.shouldTerminate) {
-            yield {
-              type: 'terminated',
-              finalTree: currentTree,
-              message: 'Decomposition process terminated, keeping current result',
-              state: this.createWorkflowState(currentTree)
-            };
+          if (session.shouldTerminate) {
             return;
           }
-          // 4. 判断节点是否可以直接回答
-          yield {
-            type: 'judge_node',
-            nodeId: leafNode.id,
-            result: false,
-            message: `Judging node "${leafNode.content}"...`,
-            state: this.createWorkflowState(currentTree)
-          };
+          await this.processLeafNode(session, leafNode, inputText, mode, event => channel.push(event));
+        }).then(() => channel.close(), error => channel.fail(error));
 
-          const judgement = await this.judgementAgent.judgeNode(leafNode.content, inputText);
-          
-          if (judgement.canDirectlyAnswer) {
-            // 标记为可以直接回答
-            currentTree = this.updateNodeInTree(currentTree, leafNode.id, {
-              status: 'can_answer',
-              canDirectlyAnswer: true
-            });
-
-            yield {
-              type: 'judge_node',
-              nodeId: leafNode.id,
-              result: true,
-              message: `Node "${leafNode.content}" can directly answer`,
-              state: this.createWorkflowState(currentTree)
-            };
-          } else {
-            // 需要进一步分解
-            yield {
-              type: 'decompose_node',
-              nodeId: leafNode.id,
-              message: `Decomposing node "${leafNode.content}"...`,
-              state: this.createWorkflowState(currentTree)
-            };
-
-            try {
-              const nodeDecomposition = await this.decomposerAgent.decomposeTask(leafNode.content, inputText, mode, false);
-              let newNode = this.convertToTreeNode(nodeDecomposition.root, 'pending');
-              
-              // 确保新节点的ID是唯一的
-              newNode = this.ensureUniqueIds(newNode, currentTree, leafNode.id);
-              newNode.expanded = true;
-              
-              currentTree = this.replaceNodeInTree(currentTree, leafNode.id, newNode);
-
-              yield {
-                type: 'update_tree',
-                tree: currentTree,
-                message: `Node "${leafNode.content}" decomposition completed`,
-                state: this.createWorkflowState(currentTree)
-              };
-            } catch {
-              // 分解失败，标记为完成
-              currentTree = this.updateNodeInTree(currentTree, leafNode.id, {
-                status: 'can_answer',
-                canDirectlyAnswer: true
-              });
-
-              yield {
-                type: 'judge_node',
-                nodeId: leafNode.id,
-                result: true,
-                message: `Node "${leafNode.content}" decomposition failed, marked as can directly answer`,
-                state: this.createWorkflowState(currentTree)
-              };
-            }
-          }
+        for await (const event of channel) {
+          yield event;
+        }
+        await processing;
+
+        iterationCount++;
+      }
+
+      // 退出循环前收到的终止请求同样需要反馈
+      if (session.shouldTerminate) {
+        yield {
+          type: 'terminated',
+          finalTree: session.currentTree,
+          message: 'Decomposition process terminated, keeping current result',
+          state: this.createWorkflowState(session)
+        };
+        return;
+      }
+
+      // 4. 解答阶段：为范围内可直接回答、尚无解答的叶子节点生成解答
+      if (options.answerLeaves) {
+        const scopeRoot = findNodeInTree(session.currentTree, scopeNodeId) ?? session.currentTree;
+        const answerableNodes = this.getLeafNodes(scopeRoot).filter(node =>
+          node.status === 'can_answer' && !node.answer
+        );
+
+        const channel = new EventChannel<WorkflowEvent>();
+        const answering = runWithConcurrency(answerableNodes, concurrency, async (leafNode) => {
+          await this.answerLeafNode(session, leafNode, inputText, mode, event => channel.push(event));
+        }).then(() => channel.close(), error => channel.fail(error));
 
-          // 更新进度
-          const state = this.createWorkflowState(currentTree);
-          const progress = Math.round((state.processedNodes / state.totalNodes) * 100);
-          
+        for await (const event of channel) {
+          yield event;
+        }
+        await answering;
+
+        if (session.shouldTerminate) {
           yield {
-            type: 'progress',
-            progress,
-            message: `Processing progress: ${state.processedNodes}/${state.totalNodes}`,
-            state
+            type: 'terminated',
+            finalTree: session.currentTree,
+            message: 'Decomposition process terminated, keeping current result',
+            state: this.createWorkflowState(session)
           };
+          return;
         }
-
-        iterationCount++;
       }
 
-      // 5. 完成工作流
-      const finalState = this.createWorkflowState(currentTree);
+      // 5. 完成工作流，报告结束运行的预算限制
+      const limitReached = session.limitReached ?? (session.depthLimitHit ? 'max_depth' : null);
+      const finalState = this.createWorkflowState(session);
       yield {
         type: 'complete',
-        finalTree: currentTree,
-        message: 'Done',
-        state: finalState
+        finalTree: session.currentTree,
+        message: limitReached ? `Done (${BUDGET_LIMIT_LABELS[limitReached]} reached)` : 'Done',
+        state: finalState,
+        limitReached
       };
 
     } catch (error) {
+      // 运行被中止导致的请求失败按终止处理
+      if (session.shouldTerminate) {
+        yield {
+          type: 'terminated',
+          finalTree: session.currentTree,
+          message: 'Decomposition process terminated, keeping current result',
+          state: this.createWorkflowState(session)
+        };
+        return;
+      }
+      // 范围节点的分解因预算停止：保留当前的树，按预算限制结束运行
+      const limit = this.getBudgetStop(session, error);
+      if (limit) {
+        yield {
+          type: 'complete',
+          finalTree: session.currentTree,
+          message: `Done (${BUDGET_LIMIT_LABELS[limit]} reached)`,
+          state: this.createWorkflowState(session),
+          limitReached: limit
+        };
+        return;
+      }
       yield {
         type: 'error',
         error: error instanceof Error ? error.message : 'Error'
       };
+    } finally {
+      // 运行结束（包括消费方提前退出）后释放会话
+      // 提前退出时让仍在进行的节点处理在下一次检查时停止
+      session.shouldTerminate = true;
+      this.releasePendingApprovals(session);
+      session.detachListeners();
+      this.sessions.delete(session.runId);
     }
   }
 }
@@ -528,4 +1594,6 @@ export class WorkflowController {
 // 导出单例实例
 export const judgementAgent = new JudgementAgent();
 export const problemDecomposerAgent = new ProblemDecomposerAgent();
-export const workflowController = new WorkflowController(); 
\ No newline at end of file
+export const workflowController = new WorkflowController();
+export const criticAgent = new CriticAgent();
+export const answerAgent = new AnswerAgent(); 
\ No newline at end of file
@@ -1,50 +1,147 @@
 // AI 配置中心 - 支持多个 AI 服务提供商和多 Agent 的统一管理
 
+import type { ChildCountLimits, ChildCountRange, WorkflowBudget } from "@/types";
+import type { RateLimitConfig } from "./rate-limiter";
+
 // 定义模型配置的接口
 export interface ModelConfig {
   id: string; // 模型 ID
+  pricing?: ModelPricing; // 模型价格，未配置时费用估算为 0
   // 未来可扩展其他参数，如 max_tokens, temperature 等
 }
 
+// 模型价格（美元 / 百万 token）
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// 提供商类型：OpenAI 兼容接口、本地 HTTP 推理服务（Ollama 风格）、离线模拟
+export type ProviderType = 'openai' | 'local' | 'mock';
+
+// 结构化输出方式：严格 JSON Schema、以工具调用参数输出、仅要求输出 JSON（结构靠提示词描述）
+export type StructuredOutputMode = 'json_schema' | 'tool_call' | 'json_object';
+
 // 定义服务提供商的接口
 export interface ProviderConfig {
   name: string;
+  type: ProviderType;
   apiKey: string;
   baseURL: string;
+  rateLimit?: RateLimitConfig; // 该提供商的请求速率与并发上限
+  structuredOutput?: StructuredOutputMode; // 支持的结构化输出方式，默认 json_object
 }
 
+// 注册表条目：apiKeyRequired 为 false 的提供商无需 API Key 即可激活
+type ProviderRegistryEntry = Omit<ProviderConfig, 'apiKey'> & { apiKeyEnvVar: string; apiKeyRequired: boolean };
+
 // AI 提供商注册表 - 定义所有可用提供商的静态配置
-const aiProvidersRegistry: { [key: string]: Omit<ProviderConfig, 'apiKey'> & { apiKeyEnvVar: string } } = {
+const aiProvidersRegistry: { [key: string]: ProviderRegistryEntry } = {
   moonshot: {
     name: "moonshot",
+    type: "openai",
     apiKeyEnvVar: "MOONSHOT_API_KEY",
+    apiKeyRequired: true,
     baseURL: "https://api.moonshot.cn/v1",
+    rateLimit: { requestsPerMinute: 60, maxConcurrent: 8 },
+    structuredOutput: "tool_call",
   },
   openrouter: {
     name: "openrouter",
+    type: "openai",
     apiKeyEnvVar: "OPENROUTER_API_KEY",
+    apiKeyRequired: true,
     baseURL: "https://openrouter.ai/api/v1",
+    rateLimit: { requestsPerMinute: 120, maxConcurrent: 16 },
+    structuredOutput: "json_schema",
   },
   siliconflow: {
     name: "siliconflow",
+    type: "openai",
     apiKeyEnvVar: "SILICONFLOW_API_KEY",
+    apiKeyRequired: true,
     baseURL: "https://api.siliconflow.cn/v1",
+    rateLimit: { requestsPerMinute: 60, maxConcurrent: 8 },
+    structuredOutput: "json_object",
   },
+  // 本地推理服务（Ollama /api/chat 接口），地址可通过 LOCAL_LLM_BASE_URL 覆盖
+  local: {
+    name: "local",
+    type: "local",
+    apiKeyEnvVar: "LOCAL_LLM_API_KEY",
+    apiKeyRequired: false,
+    baseURL: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434",
+    rateLimit: { maxConcurrent: 2 }, // 本地推理通常只能同时处理少量请求
+    structuredOutput: "json_schema", // Ollama 的 format 参数接受 JSON Schema
+  },
+  // 离线模拟提供商，从固定数据文件返回确定性的分解与判断结果，用于测试与演示
+  mock: {
+    name: "mock",
+    type: "mock",
+    apiKeyEnvVar: "MOCK_LLM_API_KEY",
+    apiKeyRequired: false,
+    baseURL: "",
+  },
+};
+
+// 模型价格表 - 按模型 ID 配置，用于估算每次分解的费用
+// 可通过环境变量 MODEL_PRICING（JSON，格式同下）覆盖或补充
+const modelPricingRegistry: { [modelId: string]: ModelPricing } = {
+  "openai/gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "openai/gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+};
+
+// 合并环境变量中的价格配置
+if (process.env.MODEL_PRICING) {
+  try {
+    Object.assign(modelPricingRegistry, JSON.parse(process.env.MODEL_PRICING));
+  } catch (error) {
+    console.error("环境变量 MODEL_PRICING 不是合法的 JSON:", error);
+  }
+}
+
+// 合并环境变量中的限流配置：PROVIDER_RATE_LIMITS（JSON，按提供商名称覆盖注册表中的对应项）
+if (process.env.PROVIDER_RATE_LIMITS) {
+  try {
+    const overrides: { [providerName: string]: RateLimitConfig } = JSON.parse(process.env.PROVIDER_RATE_LIMITS);
+    for (const [providerName, rateLimit] of Object.entries(overrides)) {
+      const entry = aiProvidersRegistry[providerName];
+      if (entry) {
+        entry.rateLimit = { ...entry.rateLimit, ...rateLimit };
+      } else {
+        console.warn(`PROVIDER_RATE_LIMITS 中的提供商 "${providerName}" 在 ai-config.ts 中未定义，已忽略`);
+      }
+    }
+  } catch (error) {
+    console.error("环境变量 PROVIDER_RATE_LIMITS 不是合法的 JSON:", error);
+  }
+}
+
+/**
+ * 获取模型的价格配置
+ * @param modelId 模型 ID
+ * @returns 价格配置，未配置时返回 undefined
+ */
+export const getModelPricing = (modelId: string): ModelPricing | undefined => {
+  return modelPricingRegistry[modelId];
 };
 
 // 存储已激活（即配置了 API Key）的提供商
 const activeProviders: { [key: string]: ProviderConfig } = {};
 
 // 初始化 activeProviders
-// 遍历注册表，如果环境变量中设置了对应的 API Key，则将其添加到 activeProviders
+// 遍历注册表，如果环境变量中设置了对应的 API Key（或该提供商无需 Key），则将其添加到 activeProviders
 for (const providerName in aiProvidersRegistry) {
   const providerSetup = aiProvidersRegistry[providerName];
   const apiKey = process.env[providerSetup.apiKeyEnvVar];
-  if (apiKey) {
+  if (apiKey || !providerSetup.apiKeyRequired) {
     activeProviders[providerName] = {
       name: providerSetup.name,
+      type: providerSetup.type,
       baseURL: providerSetup.baseURL,
-      apiKey,
+      apiKey: apiKey || '',
+      rateLimit: providerSetup.rateLimit,
+      structuredOutput: providerSetup.structuredOutput,
     };
   }
 }
@@ -52,41 +149,70 @@ for (const providerName in aiProvidersRegistry) {
 // --- Agent 配置 ---
 // 为不同的 Agent（任务角色）通过环境变量进行配置
 
-type AgentName = 'decomposition' | 'judgment';
+export type AgentName = 'decomposition' | 'judgment' | 'critic' | 'answer';
+
+// 未单独配置时沿用其他 Agent 的配置：审阅与解答 Agent 默认使用分解 Agent 的提供商和模型
+const agentConfigFallbacks: Partial<Record<AgentName, AgentName>> = {
+  critic: 'decomposition',
+  answer: 'decomposition',
+};
+
+// Agent 配置的一个提供商与模型
+interface AgentProviderSetting {
+  provider: string;
+  modelId: string;
+}
+
+// 解析提供商链："provider:model,provider:model"，模型 ID 本身可能含有冒号，只按第一个冒号拆分
+const parseProviderChain = (value: string, envVar: string): AgentProviderSetting[] => {
+  return value.split(",").map(item => item.trim()).filter(Boolean).map(item => {
+    const separator = item.indexOf(":");
+    if (separator <= 0 || separator === item.length - 1) {
+      throw new Error(`环境变量 ${envVar} 中的 "${item}" 格式错误，应为 提供商:模型ID`);
+    }
+    return { provider: item.slice(0, separator).trim(), modelId: item.slice(separator + 1).trim() };
+  });
+};
 
 /**
  * 从环境变量中获取指定 Agent 的设置
+ * 优先读取 {AGENT}_PROVIDERS 配置的提供商链（按顺序故障转移），否则使用 {AGENT}_PROVIDER 与 {AGENT}_MODEL_ID
  * @param agentName Agent 的名称
- * @returns 包含提供商和模型ID的对象
+ * @returns 按优先级排列的提供商和模型ID列表
  * @throws 如果未设置必要的环境变量，则抛出错误
  */
-const getAgentConfig = (agentName: AgentName): { provider: string; modelId: string } => {
+const getAgentConfig = (agentName: AgentName): AgentProviderSetting[] => {
   const upperAgentName = agentName.toUpperCase();
   
+  const chain = process.env[`${upperAgentName}_PROVIDERS`];
   const provider = process.env[`${upperAgentName}_PROVIDER`];
   const modelId = process.env[`${upperAgentName}_MODEL_ID`];
 
+  if (chain) {
+    const settings = parseProviderChain(chain, `${upperAgentName}_PROVIDERS`);
+    if (settings.length > 0) {
+      return settings;
+    }
+  }
+
+  const fallback = agentConfigFallbacks[agentName];
+  if (fallback && !provider && !modelId) {
+    return getAgentConfig(fallback);
+  }
+
   if (!provider) {
-    throw new Error(`请设置环境变量 ${upperAgentName}_PROVIDER 以指定 Agent "${agentName}" 的提供商`);
+    throw new Error(`请设置环境变量 ${upperAgentName}_PROVIDERS 或 ${upperAgentName}_PROVIDER 以指定 Agent "${agentName}" 的提供商`);
   }
   
   if (!modelId) {
     throw new Error(`请设置环境变量 ${upperAgentName}_MODEL_ID 以指定 Agent "${agentName}" 的模型ID`);
   }
 
-  return { provider, modelId };
+  return [{ provider, modelId }];
 };
 
-/**
- * 为指定的 Agent 获取提供商配置和模型信息
- * 
- * @param agentName Agent 的名称 ('decomposition' | 'judgment')
- * @returns 包含提供商配置和具体模型配置的对象
- * @throws 如果找不到提供商或未设置必要环境变量，则抛出错误
- */
-export const getProviderAndModelForAgent = (agentName: AgentName): { providerConfig: ProviderConfig; modelConfig: ModelConfig } => {
-  const { provider: providerName, modelId } = getAgentConfig(agentName);
-
+// 查找已激活的提供商配置
+const resolveProviderConfig = (agentName: AgentName, providerName: string): ProviderConfig => {
   const providerConfig = activeProviders[providerName];
   if (!providerConfig) {
     const registryEntry = aiProvidersRegistry[providerName];
@@ -96,10 +222,48 @@ export const getProviderAndModelForAgent = (agentName: AgentName): { providerCon
       throw new Error(`Agent "${agentName}" 配置的提供商 "${providerName}" 在 ai-config.ts 中未定义。`);
     }
   }
+  return providerConfig;
+};
 
-  const modelConfig: ModelConfig = { id: modelId };
+/**
+ * 为指定的 Agent 获取提供商链：按优先级排列的提供商配置与模型信息
+ * 链中未激活的提供商会被跳过，全部不可用时抛出第一个错误
+ * 
+ * @param agentName Agent 的名称 ('decomposition' | 'judgment' | 'critic' | 'answer')
+ * @returns 包含提供商配置和具体模型配置的对象列表，至少有一项
+ * @throws 如果找不到可用的提供商或未设置必要环境变量，则抛出错误
+ */
+export const getProviderChainForAgent = (agentName: AgentName): { providerConfig: ProviderConfig; modelConfig: ModelConfig }[] => {
+  const settings = getAgentConfig(agentName);
+  const chain: { providerConfig: ProviderConfig; modelConfig: ModelConfig }[] = [];
+  let firstError: Error | null = null;
+
+  for (const { provider: providerName, modelId } of settings) {
+    try {
+      const providerConfig = resolveProviderConfig(agentName, providerName);
+      chain.push({ providerConfig, modelConfig: { id: modelId, pricing: getModelPricing(modelId) } });
+    } catch (error) {
+      if (settings.length === 1) throw error;
+      console.warn(`${error instanceof Error ? error.message : String(error)}，已从提供商链中跳过`);
+      firstError = firstError ?? (error as Error);
+    }
+  }
 
-  return { providerConfig, modelConfig };
+  if (chain.length === 0) {
+    throw firstError ?? new Error(`Agent "${agentName}" 没有可用的提供商`);
+  }
+  return chain;
+};
+
+/**
+ * 为指定的 Agent 获取首选的提供商配置和模型信息
+ * 
+ * @param agentName Agent 的名称 ('decomposition' | 'judgment' | 'critic' | 'answer')
+ * @returns 包含提供商配置和具体模型配置的对象
+ * @throws 如果找不到提供商或未设置必要环境变量，则抛出错误
+ */
+export const getProviderAndModelForAgent = (agentName: AgentName): { providerConfig: ProviderConfig; modelConfig: ModelConfig } => {
+  return getProviderChainForAgent(agentName)[0];
 };
 
 /**
@@ -109,6 +273,99 @@ export const getProviderAndModelForAgent = (agentName: AgentName): { providerCon
 export const getActiveProvidersInfo = () => {
   return Object.values(activeProviders).map(p => ({
     name: p.name,
+    type: p.type,
     baseURL: p.baseURL,
+    rateLimit: p.rateLimit,
+    structuredOutput: p.structuredOutput ?? 'json_object',
   }));
-}; 
\ No newline at end of file
+}; 
+// --- 工作流配置 ---
+
+// 叶子节点并发处理上限，防止单次运行向提供商发起过多并发请求
+const MAX_WORKFLOW_CONCURRENCY = 16;
+
+/**
+ * 解析工作流的叶子节点并发数
+ * 优先使用请求传入的值，否则读取环境变量 WORKFLOW_CONCURRENCY，默认为 4
+ * @param requested 请求中指定的并发数
+ * @returns 位于 1 到 MAX_WORKFLOW_CONCURRENCY 之间的整数
+ */
+export const resolveWorkflowConcurrency = (requested?: number): number => {
+  const fallback = Number(process.env.WORKFLOW_CONCURRENCY) || 4;
+  const value = requested && Number.isFinite(requested) ? requested : fallback;
+  return Math.max(1, Math.min(MAX_WORKFLOW_CONCURRENCY, Math.floor(value)));
+};
+
+
+// 将请求中的预算值规范化为正整数，非法值视为不限制
+const toPositiveInteger = (value: unknown): number | undefined => {
+  const num = Number(value);
+  return Number.isFinite(num) && num > 0 ? Math.floor(num) : undefined;
+};
+
+/**
+ * 解析工作流的运行预算
+ * 仅保留合法的正整数限制，未设置的项表示不限制
+ * @param requested 请求中指定的预算
+ * @returns 规范化后的预算
+ */
+export const resolveWorkflowBudget = (requested?: WorkflowBudget): WorkflowBudget => {
+  if (!requested) return {};
+
+  return {
+    maxDepth: toPositiveInteger(requested.maxDepth),
+    maxNodes: toPositiveInteger(requested.maxNodes),
+    maxLLMCalls: toPositiveInteger(requested.maxLLMCalls),
+    timeoutMs: toPositiveInteger(requested.timeoutMs),
+  };
+};
+
+// 规范化子节点数量范围：上限不小于下限，均未设置时返回 undefined
+const toChildCountRange = (requested?: ChildCountRange): ChildCountRange | undefined => {
+  if (!requested) return undefined;
+  const min = toPositiveInteger(requested.min);
+  let max = toPositiveInteger(requested.max);
+  if (min !== undefined && max !== undefined && max < min) {
+    max = min;
+  }
+  return min === undefined && max === undefined ? undefined : { min, max };
+};
+
+/**
+ * 解析每次分解的子节点数量限制
+ * 非法的数值视为不限制，按深度的覆盖项只保留合法的非负整数深度
+ * @param requested 请求中指定的限制
+ * @returns 规范化后的限制，未设置任何限制时返回 undefined
+ */
+export const resolveChildCountLimits = (requested?: ChildCountLimits): ChildCountLimits | undefined => {
+  if (!requested) return undefined;
+
+  const byDepth: Record<number, ChildCountRange> = {};
+  for (const [depth, range] of Object.entries(requested.byDepth ?? {})) {
+    const normalized = toChildCountRange(range);
+    if (Number.isInteger(Number(depth)) && Number(depth) >= 0 && normalized) {
+      byDepth[Number(depth)] = normalized;
+    }
+  }
+
+  const base = toChildCountRange(requested);
+  if (!base && Object.keys(byDepth).length === 0) return undefined;
+
+  return {
+    ...base,
+    byDepth: Object.keys(byDepth).length > 0 ? byDepth : undefined,
+    overflow: requested.overflow === 'regroup' ? 'regroup' : 'reask',
+  };
+};
+
+/**
+ * 获取指定深度的节点分解时适用的子节点数量范围
+ * @param limits 已解析的限制
+ * @param depth 被分解节点的深度（根节点为 0）
+ * @returns 数量范围，不限制时返回 undefined
+ */
+export const getChildCountRange = (limits: ChildCountLimits | undefined, depth: number): ChildCountRange | undefined => {
+  if (!limits) return undefined;
+  const range = limits.byDepth?.[depth] ?? { min: limits.min, max: limits.max };
+  return range.min === undefined && range.max === undefined ? undefined : range;
+};
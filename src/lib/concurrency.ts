@@ -0,0 +1,135 @@
+// 并发工具 - 为工作流提供受限并发执行与事件汇流
+
+/**
+ * 以受限的并发度处理一组任务
+ * @param items 待处理的任务列表
+ * @param limit 最大并发数（至少为 1）
+ * @param worker 处理单个任务的异步函数
+ * @throws 任一任务失败时抛出该错误
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+): Promise<void> {
+  let nextIndex = 0;
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+
+  const runners = Array.from({ length: workerCount }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+}
+
+/**
+ * 多生产者、单消费者的异步事件通道
+ * 并发任务通过 push 写入事件，消费方按写入顺序 for await 读取
+ */
+export class EventChannel<T> implements AsyncIterable<T> {
+  private buffer: T[] = [];
+  private waiters: Array<(result: IteratorResult<T>) => void> = [];
+  private failWaiters: Array<(error: unknown) => void> = [];
+  private closed = false;
+  private error: unknown = null;
+
+  // 写入事件；通道关闭后写入的事件会被忽略
+  push(item: T): void {
+    if (this.closed) return;
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      this.failWaiters.shift();
+      waiter({ value: item, done: false });
+    } else {
+      this.buffer.push(item);
+    }
+  }
+
+  // 正常关闭通道，已缓冲的事件仍会被读取
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.flushWaiters();
+  }
+
+  // 以错误关闭通道，消费方读取完缓冲事件后收到该错误
+  fail(error: unknown): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.error = error ?? new Error('Event channel failed');
+    this.flushWaiters();
+  }
+
+  private flushWaiters(): void {
+    const waiters = this.waiters.splice(0);
+    const failWaiters = this.failWaiters.splice(0);
+    if (this.error) {
+      failWaiters.forEach(reject => reject(this.error));
+    } else {
+      waiters.forEach(resolve => resolve({ value: undefined, done: true }));
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: () => {
+        if (this.buffer.length > 0) {
+          return Promise.resolve({ value: this.buffer.shift()!, done: false });
+        }
+        if (this.closed) {
+          return this.error
+            ? Promise.reject(this.error)
+            : Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise<IteratorResult<T>>((resolve, reject) => {
+          this.waiters.push(resolve);
+          this.failWaiters.push(reject);
+        });
+      },
+    };
+  }
+}
+
+/**
+ * 可暂停的闸门：暂停期间 wait 挂起，恢复后按先来后到放行
+ * 用于在客户端连接断开期间挂起新的模型请求，续连后继续
+ */
+export class PauseGate {
+  private paused = false;
+  private waiters: Array<() => void> = [];
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.waiters.splice(0).forEach(resolve => resolve());
+  }
+
+  /**
+   * 未暂停时立即返回，暂停时等待恢复
+   * @param signal 等待期间触发时移出等待队列并抛出取消原因
+   */
+  async wait(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    if (!this.paused) return;
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiters = this.waiters.filter(waiter => waiter !== release);
+        reject(signal!.reason);
+      };
+      const release = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      this.waiters.push(release);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,114 @@
+// JSON 修复工具 - 处理模型返回的代码块包裹、前后缀说明或被截断的 JSON
+
+// 修复截断 JSON 时最多回退的次数
+const MAX_TRUNCATION_ATTEMPTS = 20;
+
+/**
+ * 从模型输出中提取 JSON 主体：去除 ``` 代码块标记与 JSON 前后的说明文字
+ * @param text 模型原始输出
+ * @returns 以 { 或 [ 开头的 JSON 候选文本
+ */
+export function extractJsonCandidate(text: string): string {
+  let candidate = text.trim();
+
+  // 去除代码块标记（允许缺少结尾标记的截断输出）
+  const fenceMatch = candidate.match(/```(?:json|JSON)?\s*([\s\S]*?)(?:```|$)/);
+  if (fenceMatch) {
+    candidate = fenceMatch[1].trim();
+  }
+
+  const start = candidate.search(/[{[]/);
+  if (start < 0) {
+    return candidate;
+  }
+  candidate = candidate.slice(start);
+
+  // 去除 JSON 之后的说明文字
+  const lastClose = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+  if (lastClose >= 0) {
+    try {
+      JSON.parse(candidate.slice(0, lastClose + 1));
+      return candidate.slice(0, lastClose + 1);
+    } catch {
+      // 结尾不完整，保留全部内容交给截断修复
+    }
+  }
+  return candidate;
+}
+
+/**
+ * 补全被截断的 JSON：闭合未结束的字符串与括号，并移除多余的逗号
+ * @param text JSON 候选文本
+ * @returns 括号配平后的文本（不保证一定合法）
+ */
+export function closeTruncatedJson(text: string): string {
+  const stack: string[] = [];
+  let output = '';
+  let inString = false;
+  let escaped = false;
+
+  for (const char of text) {
+    if (inString) {
+      output += char;
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char);
+    } else if (char === '}' || char === ']') {
+      // 去除闭合括号前的多余逗号
+      output = output.replace(/,\s*$/, '');
+      stack.pop();
+    }
+    output += char;
+  }
+
+  if (inString) {
+    // 截断在转义符之后时去掉悬空的反斜杠
+    output = (escaped ? output.slice(0, -1) : output) + '"';
+  }
+
+  output = output.replace(/[\s,]+$/, '');
+  if (/:\s*$/.test(output)) {
+    output += 'null';
+  }
+
+  return output + stack.reverse().map(open => (open === '{' ? '}' : ']')).join('');
+}
+
+/**
+ * 解析模型返回的 JSON，必要时进行修复
+ * @param text 模型原始输出
+ * @returns 解析结果，以及是否经过了修复
+ * @throws 无法修复时抛出错误
+ */
+export function parseJsonWithRepair(text: string): { value: unknown; repaired: boolean } {
+  try {
+    return { value: JSON.parse(text), repaired: false };
+  } catch {
+    // 继续尝试修复
+  }
+
+  let candidate = extractJsonCandidate(text);
+  for (let attempt = 0; attempt < MAX_TRUNCATION_ATTEMPTS; attempt++) {
+    try {
+      return { value: JSON.parse(closeTruncatedJson(candidate)), repaired: true };
+    } catch {
+      // 丢弃最后一个不完整的元素后重试
+      const cut = candidate.lastIndexOf(',');
+      if (cut <= 0) break;
+      candidate = candidate.slice(0, cut);
+    }
+  }
+
+  throw new Error('无法解析或修复 AI 返回的 JSON');
+}
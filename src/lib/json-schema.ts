@@ -0,0 +1,154 @@
+// zod → JSON Schema 转换 - 将 Agent 的输出校验 schema 转为结构化输出所需的 JSON Schema
+import { z } from "zod";
+
+// JSON Schema 对象
+export type JsonSchema = { [key: string]: unknown };
+
+// 转换选项
+export interface JsonSchemaOptions {
+  // 严格模式（结构化输出的 strict 约束）：对象不允许额外属性且所有属性必填，因此可选属性不发给模型；
+  // 数值范围、长度等约束并非所有服务都支持，严格模式下省略，仍由 zod 校验兜底
+  strict?: boolean;
+}
+
+class ZodJsonSchemaConverter {
+  private stack: z.ZodTypeAny[] = []; // 正在转换的 schema，用于发现递归引用
+  private definitionNames = new Map<z.ZodTypeAny, string>(); // 被递归引用的 schema 及其定义名
+  private definitions: Record<string, JsonSchema> = {};
+
+  constructor(private options: JsonSchemaOptions) {}
+
+  convertRoot(schema: z.ZodTypeAny): JsonSchema {
+    const result = this.convert(schema);
+    return Object.keys(this.definitions).length > 0
+      ? { ...result, $defs: this.definitions }
+      : result;
+  }
+
+  private convert(schema: z.ZodTypeAny): JsonSchema {
+    // 递归：已在转换栈中的 schema 改为引用 $defs 中的定义
+    if (this.stack.includes(schema)) {
+      return { $ref: `#/$defs/${this.definitionName(schema)}` };
+    }
+
+    this.stack.push(schema);
+    try {
+      const result = this.convertType(schema);
+      if (schema.description) {
+        result.description = schema.description;
+      }
+      const name = this.definitionNames.get(schema);
+      if (name) {
+        this.definitions[name] = result;
+        return { $ref: `#/$defs/${name}` };
+      }
+      return result;
+    } finally {
+      this.stack.pop();
+    }
+  }
+
+  private definitionName(schema: z.ZodTypeAny): string {
+    let name = this.definitionNames.get(schema);
+    if (!name) {
+      name = `schema${this.definitionNames.size + 1}`;
+      this.definitionNames.set(schema, name);
+    }
+    return name;
+  }
+
+  private convertType(schema: z.ZodTypeAny): JsonSchema {
+    const strict = this.options.strict ?? false;
+
+    if (schema instanceof z.ZodObject) {
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+        const optional = value.isOptional();
+        if (optional && strict) continue;
+        properties[key] = this.convert(value);
+        if (!optional) required.push(key);
+      }
+      return { type: "object", properties, required, additionalProperties: false };
+    }
+
+    if (schema instanceof z.ZodString) {
+      const result: JsonSchema = { type: "string" };
+      if (!strict) {
+        for (const check of schema._def.checks) {
+          if (check.kind === "min") result.minLength = check.value;
+          if (check.kind === "max") result.maxLength = check.value;
+        }
+      }
+      return result;
+    }
+
+    if (schema instanceof z.ZodNumber) {
+      const result: JsonSchema = { type: schema.isInt ? "integer" : "number" };
+      if (!strict) {
+        for (const check of schema._def.checks) {
+          if (check.kind === "min") result[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+          if (check.kind === "max") result[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+        }
+      }
+      return result;
+    }
+
+    if (schema instanceof z.ZodBoolean) {
+      return { type: "boolean" };
+    }
+
+    if (schema instanceof z.ZodArray) {
+      const result: JsonSchema = { type: "array", items: this.convert(schema.element) };
+      if (!strict) {
+        if (schema._def.minLength) result.minItems = schema._def.minLength.value;
+        if (schema._def.maxLength) result.maxItems = schema._def.maxLength.value;
+      }
+      return result;
+    }
+
+    if (schema instanceof z.ZodEnum) {
+      return { type: "string", enum: [...schema.options] };
+    }
+
+    if (schema instanceof z.ZodLiteral) {
+      const value = schema.value;
+      return { type: value === null ? "null" : typeof value, enum: [value] };
+    }
+
+    if (schema instanceof z.ZodNullable) {
+      // 内层已是 anyOf 时直接追加 null，避免多层嵌套
+      const inner = this.convert(schema.unwrap());
+      const variants = Array.isArray(inner.anyOf) && Object.keys(inner).length === 1 ? inner.anyOf : [inner];
+      return { anyOf: [...variants, { type: "null" }] };
+    }
+
+    if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+      const options = schema.options as z.ZodTypeAny[];
+      return { anyOf: options.map(option => this.convert(option)) };
+    }
+
+    // 包装类型：可选性由所在对象处理，默认值、refine/transform 与惰性 schema 按内层类型转换
+    if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+      return this.convert(schema._def.innerType);
+    }
+    if (schema instanceof z.ZodEffects) {
+      return this.convert(schema.innerType());
+    }
+    if (schema instanceof z.ZodLazy) {
+      return this.convert(schema.schema);
+    }
+
+    throw new Error(`不支持转换为 JSON Schema 的 zod 类型: ${schema._def.typeName ?? schema.constructor.name}`);
+  }
+}
+
+/**
+ * 将 zod schema 转换为 JSON Schema，递归结构通过 $defs 引用表示
+ * @param schema zod schema，支持对象、数组、基本类型、枚举、字面量、联合、可空与惰性 schema
+ * @param options 转换选项
+ * @throws 遇到不支持的 zod 类型时抛出错误
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny, options: JsonSchemaOptions = {}): JsonSchema {
+  return new ZodJsonSchemaConverter(options).convertRoot(schema);
+}
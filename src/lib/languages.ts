@@ -0,0 +1,39 @@
+// 输出语言 - 节点内容与分解说明使用的语言；中文使用中文提示词集，其他语言使用英文提示词集并追加输出语言要求
+import { OutputLanguage } from "@/types";
+
+// 提示词集语言
+export type PromptLanguage = "en" | "zh";
+
+export interface OutputLanguageOption {
+  code: OutputLanguage;
+  label: string; // 该语言的自称，用于界面与中文提示词
+  name: string; // 英文名称，用于英文提示词
+}
+
+// 默认输出语言，与界面语言一致
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = "en";
+
+// 界面中可选的输出语言
+export const OUTPUT_LANGUAGES: OutputLanguageOption[] = [
+  { code: "en", label: "English", name: "English" },
+  { code: "zh", label: "中文", name: "Simplified Chinese" },
+  { code: "ja", label: "日本語", name: "Japanese" },
+  { code: "ko", label: "한국어", name: "Korean" },
+  { code: "es", label: "Español", name: "Spanish" },
+  { code: "fr", label: "Français", name: "French" },
+  { code: "de", label: "Deutsch", name: "German" },
+  { code: "pt", label: "Português", name: "Portuguese" },
+];
+
+// 查找输出语言；不在列表中的语言按名称原样使用（如请求直接传入 "Italian"）
+export function getOutputLanguage(code: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE): OutputLanguageOption {
+  return (
+    OUTPUT_LANGUAGES.find(language => language.code === code.toLowerCase()) ??
+    { code, label: code, name: code }
+  );
+}
+
+// 输出语言对应的提示词集
+export function getPromptLanguage(code: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE): PromptLanguage {
+  return code.toLowerCase().startsWith("zh") ? "zh" : "en";
+}
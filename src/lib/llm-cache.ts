@@ -0,0 +1,163 @@
+// LLM 响应缓存 - 按请求内容寻址的磁盘缓存，相同的模型、提示词与输入直接复用上次校验通过的结果
+import { createHash } from "crypto";
+import { mkdir, readdir, readFile, stat, unlink, utimes, writeFile } from "fs/promises";
+import path from "path";
+import { ServedBy } from "@/types";
+import { ChatMessage } from "./llm-providers";
+import { CompletionUsage } from "./usage";
+
+// 缓存配置
+export interface LLMCacheConfig {
+  enabled: boolean;
+  dir: string; // 缓存目录
+  ttlMs: number; // 条目有效期
+  maxBytes: number; // 缓存目录的总大小上限，超出时淘汰最久未使用的条目
+}
+
+// 参与计算缓存键的请求内容
+export interface LLMCacheKeyInput {
+  provider: string;
+  model: string;
+  agent: string;
+  messages: ChatMessage[]; // 包含模式提示词、输入与树上下文
+  temperature?: number;
+  responseFormat?: string;
+}
+
+// 缓存条目
+export interface LLMCacheEntry {
+  content: string; // 校验通过的模型原始输出
+  usage?: CompletionUsage; // 首次请求时的用量，仅供参考
+  servedBy?: ServedBy; // 首次请求时实际提供服务的提供商与模型
+  createdAt: number;
+}
+
+/**
+ * 读取缓存配置
+ * - LLM_CACHE=off 关闭缓存
+ * - LLM_CACHE_DIR 缓存目录，默认为 .cache/llm
+ * - LLM_CACHE_TTL_SECONDS 有效期，默认 7 天
+ * - LLM_CACHE_MAX_MB 总大小上限，默认 100 MB
+ */
+export function loadLLMCacheConfig(): LLMCacheConfig {
+  return {
+    enabled: process.env.LLM_CACHE !== "off",
+    dir: path.resolve(process.env.LLM_CACHE_DIR || path.join(".cache", "llm")),
+    ttlMs: (Number(process.env.LLM_CACHE_TTL_SECONDS) || 7 * 24 * 3600) * 1000,
+    maxBytes: (Number(process.env.LLM_CACHE_MAX_MB) || 100) * 1024 * 1024,
+  };
+}
+
+// 计算缓存键：请求内容的 sha256
+export function createCacheKey(input: LLMCacheKeyInput): string {
+  const payload = JSON.stringify([
+    input.provider,
+    input.model,
+    input.agent,
+    input.temperature ?? null,
+    input.responseFormat ?? null,
+    input.messages.map(message => [message.role, message.content]),
+  ]);
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+// 磁盘缓存：每个条目一个 JSON 文件，文件修改时间记录最近一次使用
+// 读写失败只记录日志，不影响请求本身
+export class LLMResponseCache {
+  private totalBytes: number | null = null; // 缓存目录的估算大小，首次写入时统计
+
+  constructor(private config: LLMCacheConfig) {}
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.config.dir, `${key}.json`);
+  }
+
+  async get(key: string): Promise<LLMCacheEntry | null> {
+    if (!this.config.enabled) return null;
+
+    const filePath = this.entryPath(key);
+    try {
+      const entry = JSON.parse(await readFile(filePath, "utf-8")) as LLMCacheEntry;
+      if (Date.now() - entry.createdAt > this.config.ttlMs) {
+        await this.remove(filePath);
+        return null;
+      }
+      // 更新修改时间，淘汰时按最近使用排序
+      const now = new Date();
+      await utimes(filePath, now, now).catch(() => undefined);
+      return entry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.warn(`读取 LLM 缓存失败 (${key}):`, error);
+      }
+      return null;
+    }
+  }
+
+  async set(key: string, entry: LLMCacheEntry): Promise<void> {
+    if (!this.config.enabled) return;
+
+    try {
+      await mkdir(this.config.dir, { recursive: true });
+      const data = JSON.stringify(entry);
+      await writeFile(this.entryPath(key), data, "utf-8");
+
+      if (this.totalBytes === null) {
+        this.totalBytes = await this.measure();
+      } else {
+        this.totalBytes += Buffer.byteLength(data);
+      }
+      if (this.totalBytes > this.config.maxBytes) {
+        await this.evict();
+      }
+    } catch (error) {
+      console.warn(`写入 LLM 缓存失败 (${key}):`, error);
+    }
+  }
+
+  private async remove(filePath: string): Promise<void> {
+    await unlink(filePath).catch(() => undefined);
+  }
+
+  // 列出缓存条目及其大小与最近使用时间
+  private async listEntries(): Promise<{ filePath: string; size: number; mtimeMs: number }[]> {
+    const names = await readdir(this.config.dir).catch(() => [] as string[]);
+    const entries = await Promise.all(names
+      .filter(name => name.endsWith(".json"))
+      .map(async name => {
+        const filePath = path.join(this.config.dir, name);
+        const info = await stat(filePath).catch(() => null);
+        return info ? { filePath, size: info.size, mtimeMs: info.mtimeMs } : null;
+      }));
+    return entries.filter((entry): entry is { filePath: string; size: number; mtimeMs: number } => entry !== null);
+  }
+
+  private async measure(): Promise<number> {
+    const entries = await this.listEntries();
+    return entries.reduce((sum, entry) => sum + entry.size, 0);
+  }
+
+  // 淘汰过期条目，再按最近使用时间从旧到新淘汰，直到降到上限的 90% 以下
+  private async evict(): Promise<void> {
+    const entries = await this.listEntries();
+    const now = Date.now();
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const target = this.config.maxBytes * 0.9;
+
+    for (const entry of entries.sort((a, b) => a.mtimeMs - b.mtimeMs)) {
+      if (total <= target && now - entry.mtimeMs <= this.config.ttlMs) continue;
+      await this.remove(entry.filePath);
+      total -= entry.size;
+    }
+
+    console.log(`LLM 缓存超出大小上限，淘汰后约 ${Math.round(total / 1024)} KB`);
+    this.totalBytes = total;
+  }
+}
+
+// 服务端共享的缓存实例
+export const llmResponseCache = new LLMResponseCache(loadLLMCacheConfig());
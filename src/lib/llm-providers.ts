@@ -0,0 +1,514 @@
+// LLM 提供商抽象 - Agent 通过统一接口调用模型，便于切换服务或离线运行
+import OpenAI from "openai";
+import { readFileSync } from "fs";
+import { AgentName, ModelConfig, ModelPricing, ProviderConfig, StructuredOutputMode, getProviderChainForAgent } from "./ai-config";
+import { JsonSchema } from "./json-schema";
+import { ProviderRateLimiter, getProviderRateLimiter } from "./rate-limiter";
+import { delay, isTransientError } from "./retry";
+import { CompletionUsage } from "./usage";
+import defaultMockFixtures from "./fixtures/mock-llm.json";
+
+// 对话消息
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// 对话请求
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  responseFormat?: "json_object" | "text";
+  jsonSchema?: { name: string; schema: JsonSchema }; // 期望的输出结构，提供商按其支持的结构化输出方式约束生成
+  agent: AgentName; // 发起请求的 Agent
+  subject?: string; // 本次请求处理的节点内容，模拟提供商据此匹配固定返回
+  onContent?: (content: string) => void; // 设置时以流式方式请求，每收到新内容回调一次累计的输出
+  signal?: AbortSignal; // 触发时立即中止进行中的请求
+  onProviderCall?: () => void | Promise<void>; // 每次实际向提供商发起请求前调用并等待（故障转移的每一次尝试各一次），抛出错误时不发起该请求
+}
+
+// 对话结果
+export interface ChatCompletionResult {
+  content: string | null;
+  usage?: CompletionUsage;
+  provider: string; // 实际提供服务的提供商
+  model: string; // 实际使用的模型
+  pricing?: ModelPricing; // 实际使用模型的价格，由故障转移提供商填写
+}
+
+// 提供商接口：所有实现提供一次对话调用，请求带有 onContent 时边生成边回调，最终仍返回完整结果
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly pricing?: ModelPricing;
+  createChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+}
+
+// 提供商 HTTP 请求失败，status 供重试逻辑判断是否为瞬时错误
+export class ProviderRequestError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = "ProviderRequestError";
+  }
+}
+
+// 按结构化输出方式生成的请求参数
+type StructuredOutputParams = Pick<OpenAI.Chat.ChatCompletionCreateParams, "response_format" | "tools" | "tool_choice">;
+
+// OpenAI 兼容接口（Moonshot、OpenRouter、SiliconFlow 等）
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly pricing?: ModelPricing;
+  private client: OpenAI;
+  private structuredOutput: StructuredOutputMode;
+
+  constructor(providerConfig: ProviderConfig, modelConfig: ModelConfig) {
+    this.name = providerConfig.name;
+    this.model = modelConfig.id;
+    this.pricing = modelConfig.pricing;
+    this.structuredOutput = providerConfig.structuredOutput ?? "json_object";
+    this.client = new OpenAI({
+      apiKey: providerConfig.apiKey,
+      baseURL: providerConfig.baseURL,
+      maxRetries: 0, // 重试由 withRetry 统一处理
+    });
+  }
+
+  // 请求带有输出结构时按提供商支持的方式约束输出：严格 JSON Schema 或强制调用唯一的工具；否则只要求输出 JSON
+  private getStructuredOutputParams(request: ChatCompletionRequest): StructuredOutputParams {
+    const { jsonSchema } = request;
+    if (!jsonSchema || this.structuredOutput === "json_object") {
+      return { response_format: { type: request.responseFormat ?? "text" } };
+    }
+
+    if (this.structuredOutput === "tool_call") {
+      return {
+        tools: [{
+          type: "function",
+          function: {
+            name: jsonSchema.name,
+            description: "Submit the result in the required structure.",
+            parameters: jsonSchema.schema,
+            strict: true,
+          },
+        }],
+        tool_choice: { type: "function", function: { name: jsonSchema.name } },
+      };
+    }
+
+    return {
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: jsonSchema.name, schema: jsonSchema.schema, strict: true },
+      },
+    };
+  }
+
+  // 工具调用方式下结果在工具参数中，其余方式在消息内容中
+  private get usesToolCall(): boolean {
+    return this.structuredOutput === "tool_call";
+  }
+
+  async createChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    await request.onProviderCall?.();
+    if (request.onContent) {
+      return this.createStreamingCompletion(request, request.onContent);
+    }
+
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      ...this.getStructuredOutputParams(request),
+    }, { signal: request.signal });
+
+    const message = response.choices[0]?.message;
+    const toolCall = request.jsonSchema && this.usesToolCall
+      ? message?.tool_calls?.find(call => call.type === "function")
+      : undefined;
+    return {
+      content: (toolCall?.type === "function" ? toolCall.function.arguments : message?.content) ?? null,
+      usage: response.usage,
+      provider: this.name,
+      model: this.model,
+    };
+  }
+
+  // 流式请求：累计增量内容（工具调用方式下为工具参数）并逐段回调，用量在最后一个分片中返回
+  private async createStreamingCompletion(request: ChatCompletionRequest, onContent: (content: string) => void): Promise<ChatCompletionResult> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      ...this.getStructuredOutputParams(request),
+      stream: true,
+      stream_options: { include_usage: true },
+    }, { signal: request.signal });
+
+    const fromToolCall = !!request.jsonSchema && this.usesToolCall;
+    let content = "";
+    let usage: CompletionUsage | undefined;
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+      const text = fromToolCall ? delta?.tool_calls?.[0]?.function?.arguments : delta?.content;
+      if (text) {
+        content += text;
+        onContent(content);
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+    }
+
+    return {
+      content: content || null,
+      usage,
+      provider: this.name,
+      model: this.model,
+    };
+  }
+}
+
+// Ollama /api/chat 接口的响应结构
+interface LocalChatResponse {
+  message?: { content?: string };
+  done?: boolean; // 流式响应中标记最后一行
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+// 本地 HTTP 推理服务（Ollama 风格的 /api/chat 接口）
+export class LocalHttpProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly pricing?: ModelPricing;
+  private baseURL: string;
+  private apiKey: string;
+  private structuredOutput: StructuredOutputMode;
+
+  constructor(providerConfig: ProviderConfig, modelConfig: ModelConfig) {
+    this.name = providerConfig.name;
+    this.model = modelConfig.id;
+    this.pricing = modelConfig.pricing;
+    this.baseURL = providerConfig.baseURL.replace(/\/+$/, "");
+    this.apiKey = providerConfig.apiKey;
+    this.structuredOutput = providerConfig.structuredOutput ?? "json_object";
+  }
+
+  // format 参数：支持 JSON Schema 时直接传入输出结构，否则只要求输出 JSON（本地服务没有工具调用方式，同样按 JSON 处理）
+  private getFormat(request: ChatCompletionRequest): JsonSchema | "json" | undefined {
+    if (request.jsonSchema && this.structuredOutput === "json_schema") {
+      return request.jsonSchema.schema;
+    }
+    return request.jsonSchema || request.responseFormat === "json_object" ? "json" : undefined;
+  }
+
+  async createChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    await request.onProviderCall?.();
+    const response = await fetch(`${this.baseURL}/api/chat`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: request.messages,
+        stream: !!request.onContent,
+        format: this.getFormat(request),
+        options: { temperature: request.temperature },
+      }),
+      signal: request.signal,
+    });
+
+    if (request.onContent && response.ok && response.body) {
+      return this.readStreamingResponse(response.body, request.onContent);
+    }
+
+    const data: LocalChatResponse = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new ProviderRequestError(
+        `本地模型服务请求失败 (${response.status}): ${data.error ?? response.statusText}`,
+        response.status,
+      );
+    }
+
+    const promptTokens = data.prompt_eval_count ?? 0;
+    const completionTokens = data.eval_count ?? 0;
+    return {
+      content: data.message?.content ?? null,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+      provider: this.name,
+      model: this.model,
+    };
+  }
+
+  // 流式响应为逐行 JSON：每行携带一段增量内容，最后一行（done 为 true）携带用量
+  private async readStreamingResponse(body: ReadableStream<Uint8Array>, onContent: (content: string) => void): Promise<ChatCompletionResult> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let content = "";
+    let promptTokens = 0;
+    let completionTokens = 0;
+
+    const handleLine = (line: string) => {
+      if (!line.trim()) return;
+      const data: LocalChatResponse = JSON.parse(line);
+      if (data.error) {
+        throw new ProviderRequestError(`本地模型服务请求失败: ${data.error}`);
+      }
+      if (data.message?.content) {
+        content += data.message.content;
+        onContent(content);
+      }
+      if (data.done) {
+        promptTokens = data.prompt_eval_count ?? 0;
+        completionTokens = data.eval_count ?? 0;
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer + decoder.decode());
+
+    return {
+      content: content || null,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+      provider: this.name,
+      model: this.model,
+    };
+  }
+}
+
+// 模拟数据文件结构：按节点内容索引的固定分解与判断结果
+export interface MockFixtures {
+  decompositions?: Record<string, { reasoning?: string; children: string[] }>;
+  judgements?: Record<string, { canDirectlyAnswer: boolean; reasoning: string; confidence: number }>;
+  reviews?: Record<string, { summary: string; issues: unknown[] }>; // 按根节点内容索引的审阅结果
+  answers?: Record<string, string>; // 按节点内容索引的解答
+}
+
+// 未在数据文件中出现的节点，默认分解出的子项数量
+const MOCK_DEFAULT_CHILDREN = 3;
+
+// 模拟流式输出时每段的字符数
+const MOCK_STREAM_CHUNK_SIZE = 24;
+
+// 离线模拟提供商：根据数据文件返回确定性的结果，不访问网络
+// - 分解：命中数据文件则返回对应子项，否则生成固定数量的占位子项
+// - 判断：命中数据文件则返回对应结果，否则有预设分解的节点需要分解，其余可直接回答
+// - 审阅：命中数据文件则返回对应结果，否则不报告问题
+// - 解答：命中数据文件则返回对应解答，否则返回占位解答
+export class MockProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly pricing?: ModelPricing;
+  private fixtures: MockFixtures;
+  private delayMs: number;
+
+  constructor(options: { name?: string; model?: string; fixtures?: MockFixtures; delayMs?: number } = {}) {
+    this.name = options.name ?? "mock";
+    this.model = options.model ?? "mock";
+    this.fixtures = options.fixtures ?? loadMockFixtures();
+    this.delayMs = options.delayMs ?? (Number(process.env.MOCK_LLM_DELAY_MS) || 0);
+  }
+
+  async createChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    await request.onProviderCall?.();
+    if (this.delayMs > 0) {
+      await delay(this.delayMs, request.signal);
+    }
+    request.signal?.throwIfAborted();
+
+    const subject = (request.subject ?? request.messages[request.messages.length - 1]?.content ?? "").trim();
+    const body = request.agent === "judgment"
+      ? this.buildJudgement(subject)
+      : request.agent === "critic"
+        ? this.buildReview(subject)
+        : request.agent === "answer"
+          ? this.buildAnswer(subject)
+          : this.buildDecomposition(subject);
+    const content = JSON.stringify(body);
+    if (request.onContent) {
+      // 模拟流式输出：按固定长度分段回调
+      for (let end = MOCK_STREAM_CHUNK_SIZE; end < content.length; end += MOCK_STREAM_CHUNK_SIZE) {
+        request.onContent(content.slice(0, end));
+      }
+      request.onContent(content);
+    }
+
+    // 按字符数粗略估算 token，保证结果确定
+    const promptTokens = Math.ceil(request.messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+    return {
+      content,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+      provider: this.name,
+      model: this.model,
+    };
+  }
+
+  private findFixture<T>(entries: Record<string, T> | undefined, subject: string): T | undefined {
+    if (!entries) return undefined;
+    const key = subject.toLowerCase();
+    const match = Object.keys(entries).find(k => k.trim().toLowerCase() === key);
+    return match ? entries[match] : undefined;
+  }
+
+  private buildDecomposition(subject: string) {
+    const fixture = this.findFixture(this.fixtures.decompositions, subject);
+    const children = fixture
+      ? fixture.children
+      : Array.from({ length: MOCK_DEFAULT_CHILDREN }, (_, i) => `${subject} — part ${i + 1}`);
+
+    return {
+      root: {
+        id: "root",
+        content: subject,
+        children: children.map((content, i) => ({ id: String(i + 1), content, children: null })),
+      },
+      reasoning: fixture?.reasoning ?? "Mock decomposition into evenly split parts.",
+    };
+  }
+
+  private buildJudgement(subject: string) {
+    const fixture = this.findFixture(this.fixtures.judgements, subject);
+    if (fixture) return fixture;
+
+    const hasDecomposition = !!this.findFixture(this.fixtures.decompositions, subject);
+    return {
+      canDirectlyAnswer: !hasDecomposition,
+      reasoning: hasDecomposition
+        ? "Mock judgement: a canned decomposition exists for this item."
+        : "Mock judgement: no canned decomposition, treated as atomic.",
+      confidence: 0.8,
+    };
+  }
+
+  private buildReview(subject: string) {
+    return this.findFixture(this.fixtures.reviews, subject) ?? {
+      summary: "Mock review: no issues found.",
+      issues: [],
+    };
+  }
+
+  private buildAnswer(subject: string) {
+    return {
+      answer: this.findFixture(this.fixtures.answers, subject) ?? `Mock answer for "${subject}".`,
+    };
+  }
+}
+
+// 读取模拟数据：优先使用 MOCK_LLM_FIXTURES 指定的文件，否则使用内置数据
+export function loadMockFixtures(): MockFixtures {
+  const fixturePath = process.env.MOCK_LLM_FIXTURES;
+  if (!fixturePath) {
+    return defaultMockFixtures;
+  }
+
+  try {
+    return JSON.parse(readFileSync(fixturePath, "utf-8")) as MockFixtures;
+  } catch (error) {
+    console.error(`读取模拟数据文件 ${fixturePath} 失败，改用内置数据:`, error);
+    return defaultMockFixtures;
+  }
+}
+
+/**
+ * 根据提供商类型创建对应的实现
+ * @param providerConfig 提供商配置
+ * @param modelConfig 模型配置
+ */
+export const createLLMProvider = (providerConfig: ProviderConfig, modelConfig: ModelConfig): LLMProvider => {
+  switch (providerConfig.type) {
+    case "local":
+      return new LocalHttpProvider(providerConfig, modelConfig);
+    case "mock":
+      return new MockProvider({ name: providerConfig.name, model: modelConfig.id });
+    case "openai":
+    default:
+      return new OpenAICompatibleProvider(providerConfig, modelConfig);
+  }
+};
+
+// 提供商链中的一项：提供商及其所属服务的共享限流器
+export interface ChainedProvider {
+  provider: LLMProvider;
+  limiter: ProviderRateLimiter;
+}
+
+// 故障转移提供商：按顺序尝试提供商链，遇到限流、服务端错误等瞬时错误时转到下一项
+// 每次请求都经过对应提供商的限流器；name 与 model 为首选项，实际提供服务的一项记录在结果中
+export class FallbackProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly pricing?: ModelPricing;
+
+  constructor(private chain: ChainedProvider[]) {
+    if (chain.length === 0) {
+      throw new Error("提供商链不能为空");
+    }
+    this.name = chain[0].provider.name;
+    this.model = chain[0].provider.model;
+    this.pricing = chain[0].provider.pricing;
+  }
+
+  async createChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const { onProviderCall, ...providerRequest } = request;
+    for (let index = 0; ; index++) {
+      const { provider, limiter } = this.chain[index];
+      // 每次尝试都是一次计费的请求：由链统一回调，链中的提供商不再重复回调
+      await onProviderCall?.();
+      try {
+        const result = await limiter.run(() => provider.createChatCompletion(providerRequest), request.signal);
+        if (index > 0) {
+          console.log(`请求由备用提供商 ${provider.name} (${provider.model}) 完成`);
+        }
+        return { ...result, pricing: result.pricing ?? provider.pricing };
+      } catch (error) {
+        const next = this.chain[index + 1];
+        if (!next || request.signal?.aborted || !isTransientError(error)) {
+          throw error;
+        }
+        console.warn(
+          `提供商 ${provider.name} (${provider.model}) 请求失败，切换到 ${next.provider.name} (${next.provider.model}):`,
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+  }
+}
+
+/**
+ * 为指定的 Agent 创建其配置的提供商链，按顺序故障转移，并按提供商限流
+ * @param agentName Agent 的名称
+ * @throws 如果找不到提供商或未设置必要环境变量，则抛出错误
+ */
+export const createProviderForAgent = (agentName: AgentName): LLMProvider => {
+  const chain = getProviderChainForAgent(agentName).map(({ providerConfig, modelConfig }) => ({
+    provider: createLLMProvider(providerConfig, modelConfig),
+    limiter: getProviderRateLimiter(providerConfig.name, providerConfig.rateLimit),
+  }));
+  return new FallbackProvider(chain);
+};
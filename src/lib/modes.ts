@@ -0,0 +1,280 @@
+// 分解模式注册表 - 内置模式与用户自定义模式的定义、校验与解析
+import { z } from "zod";
+import { ChildCountRange, DecomposeMode, DecomposeModeDefinition, DecompositionContext, ModePrompts, OutputLanguage } from "@/types";
+import * as zhPrompts from "./prompts";
+import * as enPrompts from "./prompts-en";
+import { DEFAULT_OUTPUT_LANGUAGE, OutputLanguageOption, PromptLanguage, getOutputLanguage, getPromptLanguage } from "./languages";
+
+// 提示词集中与模式无关的通用部分
+interface PromptSet {
+  JUDGEMENT_SYSTEM_PROMPT: string;
+  DECOMPOSER_OUTPUT_FORMAT: string;
+  JUDGEMENT_OUTPUT_FORMAT: string;
+  buildDecomposeUserMessage: (text: string, originalTask: string, isRootDecomposition: boolean, context?: DecompositionContext, childRange?: ChildCountRange) => string;
+  buildChildCountCorrection: (count: number, range: ChildCountRange) => string;
+  buildRegroupLabel: (firstContent: string, count: number) => string;
+  buildJudgementUserMessage: (nodeContent: string, originalTask: string) => string;
+  buildLanguageDirective: (language: OutputLanguageOption) => string;
+  ANSWER_SYSTEM_PROMPT: string;
+  ANSWER_OUTPUT_FORMAT: string;
+  buildAnswerUserMessage: (nodeContent: string, originalTask: string, ancestors: string[]) => string;
+  CRITIC_SYSTEM_PROMPT: string;
+  buildCriticUserMessage: (outline: string, originalTask: string, modeLabel: string) => string;
+}
+
+// 各提示词集语言的提示词
+const PROMPT_SETS: Record<PromptLanguage, PromptSet> = {
+  en: enPrompts,
+  zh: zhPrompts,
+};
+
+// 默认模式
+export const DEFAULT_MODE_ID = "concept";
+
+// 内置模式，按在模式选择器中的顺序排列
+export const BUILTIN_MODES: DecomposeModeDefinition[] = [
+  {
+    id: "task",
+    label: "Task",
+    description: "Decompose any Task or Process into steps",
+    icon: "ListTodo",
+    examples: [
+      { text: "Start a company", icon: "CheckSquare" },
+      { text: "Begin triathlon", icon: "CalendarCheck" },
+      { text: "Build a Astro Blog", icon: "ListChecks" },
+      { text: "Ship a marketing campaign in 2 weeks", icon: "Rocket" },
+    ],
+    prompts: {
+      root: enPrompts.DECOMPOSER_SYSTEM_PROMPT_TASK_ROOT,
+      sub: enPrompts.DECOMPOSER_SYSTEM_PROMPT_TASK_SUB,
+      judgement: enPrompts.JUDGEMENT_SYSTEM_PROMPT,
+      answer: enPrompts.ANSWER_SYSTEM_PROMPT_TASK,
+    },
+    translations: {
+      zh: {
+        root: zhPrompts.DECOMPOSER_SYSTEM_PROMPT_TASK_ROOT,
+        sub: zhPrompts.DECOMPOSER_SYSTEM_PROMPT_TASK_SUB,
+        judgement: zhPrompts.JUDGEMENT_SYSTEM_PROMPT,
+        answer: zhPrompts.ANSWER_SYSTEM_PROMPT_TASK,
+      },
+    },
+    builtin: true,
+  },
+  {
+    id: "concept",
+    label: "Concept",
+    description: "Decompose any Object or Concept into components",
+    icon: "Atom",
+    examples: [
+      { text: "Human nervous system", icon: "Brain" },
+      { text: "Modern and contemporary literature", icon: "BookOpen" },
+      { text: "Ethereum ecosystem", icon: "Lightbulb" },
+      { text: "Basic RAG application", icon: "FlaskConical" },
+    ],
+    prompts: {
+      root: enPrompts.DECOMPOSER_SYSTEM_PROMPT_CONCEPT_ROOT,
+      sub: enPrompts.DECOMPOSER_SYSTEM_PROMPT_CONCEPT_SUB,
+      judgement: enPrompts.JUDGEMENT_SYSTEM_PROMPT,
+      answer: enPrompts.ANSWER_SYSTEM_PROMPT_CONCEPT,
+    },
+    translations: {
+      zh: {
+        root: zhPrompts.DECOMPOSER_SYSTEM_PROMPT_CONCEPT_ROOT,
+        sub: zhPrompts.DECOMPOSER_SYSTEM_PROMPT_CONCEPT_SUB,
+        judgement: zhPrompts.JUDGEMENT_SYSTEM_PROMPT,
+        answer: zhPrompts.ANSWER_SYSTEM_PROMPT_CONCEPT,
+      },
+    },
+    builtin: true,
+  },
+  {
+    id: "risk",
+    label: "Risk analysis",
+    description: "Break a project or decision into risks and mitigations",
+    icon: "ShieldAlert",
+    examples: [
+      { text: "Migrating our database to the cloud", icon: "Database" },
+      { text: "Launching in a new country", icon: "Globe" },
+    ],
+    prompts: {
+      root: enPrompts.DECOMPOSER_SYSTEM_PROMPT_RISK_ROOT,
+      sub: enPrompts.DECOMPOSER_SYSTEM_PROMPT_RISK_SUB,
+      judgement: enPrompts.JUDGEMENT_SYSTEM_PROMPT,
+      answer: enPrompts.ANSWER_SYSTEM_PROMPT_RISK,
+    },
+    translations: {
+      zh: {
+        root: zhPrompts.DECOMPOSER_SYSTEM_PROMPT_RISK_ROOT,
+        sub: zhPrompts.DECOMPOSER_SYSTEM_PROMPT_RISK_SUB,
+        judgement: zhPrompts.JUDGEMENT_SYSTEM_PROMPT,
+        answer: zhPrompts.ANSWER_SYSTEM_PROMPT_RISK,
+      },
+    },
+    builtin: true,
+  },
+  {
+    id: "okr",
+    label: "OKR breakdown",
+    description: "Break an objective into key results and initiatives",
+    icon: "Target",
+    examples: [
+      { text: "Become the go-to tool for small design teams", icon: "Target" },
+      { text: "Double weekly active users this quarter", icon: "TrendingUp" },
+    ],
+    prompts: {
+      root: enPrompts.DECOMPOSER_SYSTEM_PROMPT_OKR_ROOT,
+      sub: enPrompts.DECOMPOSER_SYSTEM_PROMPT_OKR_SUB,
+      judgement: enPrompts.JUDGEMENT_SYSTEM_PROMPT,
+      answer: enPrompts.ANSWER_SYSTEM_PROMPT_OKR,
+    },
+    translations: {
+      zh: {
+        root: zhPrompts.DECOMPOSER_SYSTEM_PROMPT_OKR_ROOT,
+        sub: zhPrompts.DECOMPOSER_SYSTEM_PROMPT_OKR_SUB,
+        judgement: zhPrompts.JUDGEMENT_SYSTEM_PROMPT,
+        answer: zhPrompts.ANSWER_SYSTEM_PROMPT_OKR,
+      },
+    },
+    builtin: true,
+  },
+];
+
+// 请求中携带的自定义模式定义的校验规则
+export const ModeDefinitionSchema = z.object({
+  id: z.string().min(1).max(64),
+  label: z.string().min(1).max(64),
+  description: z.string().max(200),
+  icon: z.string().max(64),
+  examples: z.array(z.object({
+    text: z.string().min(1).max(200),
+    icon: z.string().max(64).optional(),
+  })).max(10),
+  prompts: z.object({
+    root: z.string().min(1).max(20000),
+    sub: z.string().min(1).max(20000),
+    judgement: z.string().max(20000).optional(),
+    answer: z.string().max(20000).optional(),
+  }),
+  builtin: z.boolean().optional(),
+});
+
+// 是否为内置模式 ID
+export function isBuiltinMode(modeId: string): boolean {
+  return BUILTIN_MODES.some(mode => mode.id === modeId);
+}
+
+// 解析后的模式：提示词已按输出语言选定，并追加了输出格式与输出语言要求
+export interface ResolvedMode extends DecomposeModeDefinition {
+  prompts: Required<ModePrompts>;
+  language: OutputLanguage;
+  promptLanguage: PromptLanguage;
+}
+
+// 按输出语言组装模式的最终提示词：内置模式选用对应提示词集的提示词；
+// 自定义模式追加统一的输出格式要求，未设置判断或解答提示词时使用通用提示词
+function buildModePrompts(mode: DecomposeModeDefinition, promptLanguage: PromptLanguage, language: OutputLanguage): Required<ModePrompts> {
+  const promptSet = PROMPT_SETS[promptLanguage];
+  const directive = promptSet.buildLanguageDirective(getOutputLanguage(language));
+  const withDirective = (prompt: string) => `${prompt}\n\n${directive}`;
+
+  if (mode.builtin) {
+    const prompts = (promptLanguage === "zh" ? mode.translations?.zh : undefined) ?? mode.prompts;
+    return {
+      root: withDirective(prompts.root),
+      sub: withDirective(prompts.sub),
+      judgement: withDirective(prompts.judgement ?? promptSet.JUDGEMENT_SYSTEM_PROMPT),
+      answer: withDirective(prompts.answer ?? promptSet.ANSWER_SYSTEM_PROMPT),
+    };
+  }
+
+  const judgement = mode.prompts.judgement?.trim();
+  const answer = mode.prompts.answer?.trim();
+  return {
+    root: withDirective(`${mode.prompts.root.trim()}\n\n${promptSet.DECOMPOSER_OUTPUT_FORMAT}`),
+    sub: withDirective(`${mode.prompts.sub.trim()}\n\n${promptSet.DECOMPOSER_OUTPUT_FORMAT}`),
+    judgement: withDirective(judgement ? `${judgement}\n\n${promptSet.JUDGEMENT_OUTPUT_FORMAT}` : promptSet.JUDGEMENT_SYSTEM_PROMPT),
+    answer: withDirective(answer ? `${answer}\n\n${promptSet.ANSWER_OUTPUT_FORMAT}` : promptSet.ANSWER_SYSTEM_PROMPT),
+  };
+}
+
+// 按 ID 查找模式定义（内置模式优先），找不到时返回 undefined；界面展示使用，不做校验
+export function findMode(modeId: string, customModes: DecomposeModeDefinition[] = []): DecomposeModeDefinition | undefined {
+  return BUILTIN_MODES.find(mode => mode.id === modeId) ?? customModes.find(mode => mode.id === modeId);
+}
+
+/**
+ * 根据模式 ID 解析模式定义：优先匹配内置模式，其次匹配请求携带的自定义模式
+ * @param modeId 模式 ID
+ * @param customModes 请求携带的自定义模式定义
+ * @param language 输出语言
+ * @throws 如果找不到模式或自定义模式定义无效，则抛出错误
+ */
+export function resolveMode(
+  modeId: string,
+  customModes: DecomposeModeDefinition[] = [],
+  language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE,
+): ResolvedMode {
+  const mode = findMode(modeId, customModes);
+  if (!mode) {
+    throw new Error(`Unknown decomposition mode: ${modeId}`);
+  }
+
+  let definition: DecomposeModeDefinition = mode;
+  if (!isBuiltinMode(modeId)) {
+    const result = ModeDefinitionSchema.safeParse(mode);
+    if (!result.success) {
+      throw new Error(`Invalid custom mode "${modeId}": ${result.error.issues[0]?.message ?? 'invalid definition'}`);
+    }
+    definition = { ...result.data, builtin: false };
+  }
+
+  const promptLanguage = getPromptLanguage(language);
+  return {
+    ...definition,
+    prompts: buildModePrompts(definition, promptLanguage, language),
+    language,
+    promptLanguage,
+  };
+}
+
+// 构建分解请求的用户消息（按模式的提示词集语言），设置了子项数量范围时一并提出要求
+export function buildDecomposeUserMessage(mode: ResolvedMode, text: string, originalTask: string, isRootDecomposition: boolean, context?: DecompositionContext, childRange?: ChildCountRange): string {
+  return PROMPT_SETS[mode.promptLanguage].buildDecomposeUserMessage(text, originalTask, isRootDecomposition, context, childRange);
+}
+
+// 构建子项数量不符合要求时的重问消息（按模式的提示词集语言）
+export function buildChildCountCorrection(mode: ResolvedMode, count: number, range: ChildCountRange): string {
+  return PROMPT_SETS[mode.promptLanguage].buildChildCountCorrection(count, range);
+}
+
+// 超出数量上限时合成的中间节点名称（按模式的提示词集语言）
+export function buildRegroupLabel(mode: ResolvedMode, firstContent: string, count: number): string {
+  return PROMPT_SETS[mode.promptLanguage].buildRegroupLabel(firstContent, count);
+}
+
+// 构建判断请求的用户消息（按模式的提示词集语言）
+export function buildJudgementUserMessage(mode: ResolvedMode, nodeContent: string, originalTask: string): string {
+  return PROMPT_SETS[mode.promptLanguage].buildJudgementUserMessage(nodeContent, originalTask);
+}
+
+// 构建解答请求的用户消息（按模式的提示词集语言）
+export function buildAnswerUserMessage(mode: ResolvedMode, nodeContent: string, originalTask: string, ancestors: string[]): string {
+  return PROMPT_SETS[mode.promptLanguage].buildAnswerUserMessage(nodeContent, originalTask, ancestors);
+}
+
+// 提示词变体标识，记录在节点上以便追溯分解时使用的提示词
+export function getDecomposerPromptVariant(
+  mode: DecomposeMode,
+  isRootDecomposition: boolean,
+): string {
+  return `${mode}-${isRootDecomposition ? "root" : "sub"}`;
+}
+
+// 构建审阅请求的系统提示词与用户消息（按模式的提示词集语言，并追加输出语言要求）
+export function buildCriticMessages(mode: ResolvedMode, outline: string, originalTask: string): { system: string; user: string } {
+  const promptSet = PROMPT_SETS[mode.promptLanguage];
+  return {
+    system: `${promptSet.CRITIC_SYSTEM_PROMPT}\n\n${promptSet.buildLanguageDirective(getOutputLanguage(mode.language))}`,
+    user: promptSet.buildCriticUserMessage(outline, originalTask, mode.label),
+  };
+}
@@ -0,0 +1,96 @@
+// 子节点重叠检查 - 合并与兄弟分支完全重复的子节点，标记内容相近的子节点
+import { NodeOverlap, TreeNode } from '@/types';
+
+// 内容相似度（Jaccard）达到该值时标记为重叠
+export const OVERLAP_SIMILARITY_THRESHOLD = 0.6;
+
+// 不参与相似度计算的常见英文虚词
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'for', 'to', 'in', 'on', 'with', 'or', 'by', 'at', 'as', 'from', 'your', 'its']);
+
+// 中日韩文字（假名、汉字、韩文）
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+
+// 归一化节点内容：忽略大小写、标点与空白，用于判断完全重复
+export function normalizeContent(content: string): string {
+  return content.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+// 将内容切分为词集合：拉丁文字按单词切分，中日韩文字按相邻两字切分
+function tokenize(content: string): Set<string> {
+  const tokens = new Set<string>();
+  for (const word of content.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    if (!word || STOP_WORDS.has(word)) continue;
+    if (CJK_PATTERN.test(word)) {
+      const chars = Array.from(word);
+      if (chars.length === 1) tokens.add(word);
+      for (let i = 0; i < chars.length - 1; i++) {
+        tokens.add(chars[i] + chars[i + 1]);
+      }
+    } else {
+      tokens.add(word);
+    }
+  }
+  return tokens;
+}
+
+// 两段内容词集合的 Jaccard 相似度
+export function contentSimilarity(a: string, b: string): number {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+  let intersection = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) intersection++;
+  });
+  return intersection / (tokensA.size + tokensB.size - intersection);
+}
+
+/**
+ * 合并完全重复的子节点：与前面的子节点或兄弟分支中的节点内容相同的子节点被移除
+ * 如果所有子节点都会被移除，则保持不变，交给重叠标记处理
+ * @param children 新分解出的子节点
+ * @param existingNodes 同一父节点下其他分支中的节点
+ * @returns 保留的子节点与被合并的子节点内容
+ */
+export function mergeDuplicateChildren(children: TreeNode[], existingNodes: TreeNode[]): { children: TreeNode[]; merged: string[] } {
+  const seen = new Set(existingNodes.map(node => normalizeContent(node.content)));
+  const kept: TreeNode[] = [];
+  const merged: string[] = [];
+
+  for (const child of children) {
+    const key = normalizeContent(child.content);
+    if (key && seen.has(key)) {
+      merged.push(child.content);
+      continue;
+    }
+    seen.add(key);
+    kept.push(child);
+  }
+
+  if (kept.length === 0) {
+    return { children, merged: [] };
+  }
+  return { children: kept, merged };
+}
+
+/**
+ * 标记与兄弟分支或前面的子节点内容相近的子节点
+ * @param children 新分解出的子节点（已分配ID）
+ * @param existingNodes 同一父节点下其他分支中的节点
+ * @returns 子节点，重叠的子节点带有 overlaps 记录
+ */
+export function flagOverlappingChildren(children: TreeNode[], existingNodes: TreeNode[]): TreeNode[] {
+  const compared: TreeNode[] = [...existingNodes];
+
+  return children.map(child => {
+    const overlaps: NodeOverlap[] = [];
+    for (const other of compared) {
+      const similarity = contentSimilarity(child.content, other.content);
+      if (similarity >= OVERLAP_SIMILARITY_THRESHOLD) {
+        overlaps.push({ nodeId: other.id, content: other.content, similarity: Math.round(similarity * 100) / 100 });
+      }
+    }
+    compared.push(child);
+    return overlaps.length > 0 ? { ...child, overlaps } : child;
+  });
+}
@@ -0,0 +1,177 @@
+// 增量 JSON 解析 - 从流式输出中尚未写完的 JSON 里取出已经完整的部分
+
+// 解析选项
+export interface PartialJsonOptions {
+  partialStrings?: boolean; // 是否保留末尾未写完的字符串值，默认丢弃
+}
+
+// 解析结果中表示"未完成、应丢弃"的值
+const INCOMPLETE = Symbol('incomplete');
+
+class PartialJsonParser {
+  private pos = 0;
+
+  constructor(private text: string, private options: PartialJsonOptions) {}
+
+  parse(): unknown {
+    this.skipWhitespace();
+    const value = this.parseValue();
+    return value === INCOMPLETE ? undefined : value;
+  }
+
+  private get done(): boolean {
+    return this.pos >= this.text.length;
+  }
+
+  private skipWhitespace(): void {
+    while (!this.done && /\s/.test(this.text[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private parseValue(): unknown {
+    if (this.done) {
+      return INCOMPLETE;
+    }
+    const char = this.text[this.pos];
+    if (char === '{') return this.parseObject();
+    if (char === '[') return this.parseArray();
+    if (char === '"') return this.parseString(this.options.partialStrings ?? false);
+    if (char === '-' || (char >= '0' && char <= '9')) return this.parseNumber();
+    return this.parseLiteral();
+  }
+
+  // 对象：只保留键与值都已完整的成员
+  private parseObject(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.pos++; // {
+    while (true) {
+      this.skipWhitespace();
+      if (this.done) return result;
+      if (this.text[this.pos] === '}') {
+        this.pos++;
+        return result;
+      }
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+        continue;
+      }
+
+      const key = this.parseString(false);
+      if (key === INCOMPLETE) return result;
+      this.skipWhitespace();
+      if (this.done) return result;
+      if (this.text[this.pos] !== ':') {
+        throw new SyntaxError(`Expected ':' at position ${this.pos}`);
+      }
+      this.pos++;
+      this.skipWhitespace();
+
+      const value = this.parseValue();
+      if (value === INCOMPLETE) return result;
+      result[key as string] = value;
+    }
+  }
+
+  // 数组：未完成的末尾元素被丢弃，未闭合的对象或数组元素保留已完整的部分
+  private parseArray(): unknown[] {
+    const result: unknown[] = [];
+    this.pos++; // [
+    while (true) {
+      this.skipWhitespace();
+      if (this.done) return result;
+      if (this.text[this.pos] === ']') {
+        this.pos++;
+        return result;
+      }
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+        continue;
+      }
+
+      const value = this.parseValue();
+      if (value === INCOMPLETE) return result;
+      result.push(value);
+    }
+  }
+
+  private parseString(allowPartial: boolean): string | typeof INCOMPLETE {
+    const start = this.pos;
+    this.pos++; // "
+    let escaped = false;
+    while (!this.done) {
+      const char = this.text[this.pos];
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        this.pos++;
+        return JSON.parse(this.text.slice(start, this.pos)) as string;
+      }
+      this.pos++;
+    }
+
+    if (!allowPartial) {
+      return INCOMPLETE;
+    }
+    // 去掉悬空的转义符与不完整的 \u 转义后补全引号
+    const partial = this.text.slice(start).replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+    try {
+      return JSON.parse(`${partial}"`) as string;
+    } catch {
+      return INCOMPLETE;
+    }
+  }
+
+  // 数字后面没有分隔符时可能还没写完，视为未完成
+  private parseNumber(): number | typeof INCOMPLETE {
+    const match = /^-?\d*(\.\d*)?([eE][+-]?\d*)?/.exec(this.text.slice(this.pos));
+    const raw = match ? match[0] : '';
+    this.pos += raw.length;
+    if (this.done) {
+      return INCOMPLETE;
+    }
+    const value = Number(raw);
+    if (!raw || Number.isNaN(value)) {
+      throw new SyntaxError(`Invalid number at position ${this.pos - raw.length}`);
+    }
+    return value;
+  }
+
+  private parseLiteral(): boolean | null | typeof INCOMPLETE {
+    const rest = this.text.slice(this.pos);
+    for (const [literal, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (rest.startsWith(literal)) {
+        this.pos += literal.length;
+        return value;
+      }
+      if (literal.startsWith(rest)) {
+        this.pos = this.text.length;
+        return INCOMPLETE;
+      }
+    }
+    throw new SyntaxError(`Unexpected token at position ${this.pos}`);
+  }
+}
+
+/**
+ * 解析可能尚未写完的 JSON：未闭合的对象与数组保留已完整的成员，末尾未完成的值被丢弃
+ * @param text 流式输出中累计的文本，允许带有代码块标记或前置说明
+ * @returns 已解析的部分，尚无可用内容或格式错误时返回 undefined
+ */
+export function parsePartialJson(text: string, options: PartialJsonOptions = {}): unknown {
+  const start = text.search(/[{[]/);
+  if (start < 0) {
+    return undefined;
+  }
+
+  try {
+    return new PartialJsonParser(text.slice(start), options).parse();
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
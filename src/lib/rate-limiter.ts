@@ -0,0 +1,129 @@
+// 限流工具 - 按提供商限制请求速率（令牌桶）与同时进行的请求数
+import { delay } from './retry';
+
+// 提供商的限流配置，未设置的项表示不限制
+export interface RateLimitConfig {
+  requestsPerMinute?: number; // 每分钟请求数，即令牌补充速率
+  burst?: number; // 令牌桶容量，允许的瞬时突发请求数，默认等于每分钟请求数
+  maxConcurrent?: number; // 同时进行的请求数上限
+}
+
+// 令牌桶：按固定速率补充令牌，每次请求消耗一个，令牌不足时等待
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private capacity: number, private refillPerMs: number) {
+    this.tokens = capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  // 等待期间取消信号触发时立即抛出取消原因，不消耗令牌
+  async take(signal?: AbortSignal): Promise<void> {
+    while (true) {
+      signal?.throwIfAborted();
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      const waitMs = Math.ceil((1 - this.tokens) / this.refillPerMs);
+      await delay(waitMs, signal);
+    }
+  }
+}
+
+// 计数信号量：限制同时持有的名额，释放时按先来后到唤醒等待者
+class Semaphore {
+  private active = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(private limit: number) {}
+
+  // 等待期间取消信号触发时移出等待队列并抛出取消原因，不占用名额
+  async acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    // 名额由 release 直接转交给等待者，active 不变
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.waiters.indexOf(grant);
+        if (index === -1) return; // 名额已转交
+        this.waiters.splice(index, 1);
+        reject(signal!.reason);
+      };
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      this.waiters.push(grant);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  release(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+// 单个提供商的限流器：先占用并发名额，再等待令牌
+export class ProviderRateLimiter {
+  private bucket: TokenBucket | null;
+  private semaphore: Semaphore | null;
+
+  constructor(readonly config: RateLimitConfig = {}) {
+    const rpm = config.requestsPerMinute;
+    this.bucket = rpm && rpm > 0
+      ? new TokenBucket(Math.max(1, config.burst ?? rpm), rpm / 60000)
+      : null;
+    this.semaphore = config.maxConcurrent && config.maxConcurrent > 0
+      ? new Semaphore(Math.floor(config.maxConcurrent))
+      : null;
+  }
+
+  /**
+   * 在限流范围内执行请求
+   * @param fn 待执行的请求
+   * @param signal 排队期间触发时立即退出队列，不再发起请求
+   */
+  async run<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.semaphore?.acquire(signal);
+    try {
+      await this.bucket?.take(signal);
+      signal?.throwIfAborted();
+      return await fn();
+    } finally {
+      this.semaphore?.release();
+    }
+  }
+}
+
+// 进程内按提供商名称共享的限流器，所有 Agent 对同一提供商的请求共用一份额度
+const providerLimiters = new Map<string, ProviderRateLimiter>();
+
+/**
+ * 获取提供商的共享限流器，首次获取时按配置创建
+ * @param providerName 提供商名称
+ * @param config 限流配置
+ */
+export function getProviderRateLimiter(providerName: string, config: RateLimitConfig = {}): ProviderRateLimiter {
+  let limiter = providerLimiters.get(providerName);
+  if (!limiter) {
+    limiter = new ProviderRateLimiter(config);
+    providerLimiters.set(providerName, limiter);
+  }
+  return limiter;
+}
@@ -0,0 +1,111 @@
+// 重试工具 - 对 LLM 请求的瞬时错误进行指数退避重试
+
+export interface RetryOptions {
+  retries?: number; // 最大重试次数（不含首次请求）
+  baseDelayMs?: number; // 首次重试的基础等待时间
+  maxDelayMs?: number; // 单次等待的上限
+  label?: string; // 日志中使用的请求名称
+  signal?: AbortSignal; // 触发后不再重试，等待中的退避立即结束
+}
+
+// 读取环境变量 LLM_MAX_RETRIES，未设置或不是非负数时默认重试 3 次；设为 0 时不重试
+function readMaxRetries(): number {
+  const value = Number(process.env.LLM_MAX_RETRIES);
+  return process.env.LLM_MAX_RETRIES?.trim() && Number.isFinite(value) && value >= 0 ? Math.floor(value) : 3;
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, 'signal'>> = {
+  retries: readMaxRetries(),
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  label: 'LLM request',
+};
+
+// 可重试的 HTTP 状态码：请求超时、冲突、限流
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 429]);
+
+// 可重试的网络层错误码
+const RETRYABLE_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET']);
+
+/**
+ * 判断错误是否为瞬时错误（限流、服务端错误、网络错误）
+ * @param error 捕获的错误
+ * @returns 是否值得重试
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+
+  const { status, code, name, cause } = error as {
+    status?: number;
+    code?: string;
+    name?: string;
+    cause?: { code?: string };
+  };
+
+  // 主动取消的请求不重试
+  if (name === 'AbortError' || name === 'APIUserAbortError') return false;
+
+  if (typeof status === 'number') {
+    return RETRYABLE_STATUS_CODES.has(status) || status >= 500;
+  }
+
+  if (name === 'APIConnectionError' || name === 'APIConnectionTimeoutError') return true;
+
+  const errorCode = code ?? cause?.code;
+  return !!errorCode && RETRYABLE_ERROR_CODES.has(errorCode);
+}
+
+/**
+ * 等待指定时间，信号触发时立即以 AbortError 结束
+ * @param ms 等待时间
+ * @param signal 取消信号
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// 计算第 attempt 次重试前的等待时间（指数退避 + 随机抖动）
+function getBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const exponential = baseDelayMs * 2 ** attempt;
+  const jitter = Math.random() * baseDelayMs;
+  return Math.min(maxDelayMs, exponential + jitter);
+}
+
+/**
+ * 执行异步请求，遇到瞬时错误时按指数退避重试
+ * @param fn 待执行的请求，参数为当前尝试序号（从 0 开始）
+ * @param options 重试配置
+ * @throws 非瞬时错误立即抛出；重试耗尽后抛出最后一次的错误；信号触发后抛出取消原因
+ */
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries, baseDelayMs, maxDelayMs, label, signal } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || !isTransientError(error)) {
+        throw error;
+      }
+
+      const backoff = getBackoffDelay(attempt, baseDelayMs, maxDelayMs);
+      console.warn(`${label} 失败，${Math.round(backoff)}ms 后进行第 ${attempt + 1} 次重试:`, error instanceof Error ? error.message : String(error));
+      await delay(backoff, signal);
+    }
+  }
+}
@@ -0,0 +1,212 @@
+// 可续连的运行事件流 - 为每次运行的 SSE 事件编号并缓存，连接断开后凭 Last-Event-ID 续连
+// 工作流的执行与 HTTP 连接解耦：连接断开后暂停发起新的模型请求并开始宽限期计时，续连后继续，超过宽限期仍无人续连才中止运行
+import { StreamEvent } from '@/types';
+import { PauseGate } from './concurrency';
+
+// 事件流配置
+export interface RunStreamConfig {
+  heartbeatMs: number; // 心跳事件间隔，避免代理因空闲断开连接；0 表示不发送心跳
+  reconnectGraceMs: number; // 最后一个连接断开后等待续连的时间（期间不发起新的模型请求），超时中止运行；运行结束后缓存保留同样时长
+  maxBufferedEvents: number; // 每次运行缓存的事件数上限，超出时丢弃最早的事件
+}
+
+// 读取非负数的环境变量，未设置或非法时使用默认值（0 是合法值）
+function readNonNegativeEnv(name: string, fallback: number): number {
+  const raw = process.env[name]?.trim();
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * 读取事件流配置
+ * - SSE_HEARTBEAT_MS 心跳间隔，默认 15 秒，0 表示不发送心跳
+ * - SSE_RECONNECT_GRACE_MS 续连宽限期，默认 30 秒，0 表示连接断开后立即中止运行
+ * - SSE_MAX_BUFFERED_EVENTS 缓存事件数上限，默认 1000，0 表示不缓存（断线后无法补发）
+ */
+export function loadRunStreamConfig(): RunStreamConfig {
+  return {
+    heartbeatMs: readNonNegativeEnv('SSE_HEARTBEAT_MS', 15000),
+    reconnectGraceMs: readNonNegativeEnv('SSE_RECONNECT_GRACE_MS', 30000),
+    maxBufferedEvents: Math.floor(readNonNegativeEnv('SSE_MAX_BUFFERED_EVENTS', 1000)),
+  };
+}
+
+// 已编号的事件
+export interface RunStreamEvent {
+  id: number;
+  data: string; // JSON 编码的流数据
+}
+
+// 连接的订阅回调，事件流结束时收到 null
+type RunStreamSubscriber = (event: RunStreamEvent | null) => void;
+
+// 进程内按运行ID索引的事件流
+const runStreams = new Map<string, RunStream>();
+
+// 单次运行的事件流：编号、缓存并推送给当前连接
+export class RunStream {
+  private runId: string | null = null;
+  private events: RunStreamEvent[] = [];
+  private nextId = 1;
+  private subscribers = new Set<RunStreamSubscriber>();
+  private ended = false;
+  private graceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(readonly config: RunStreamConfig, private abortController?: AbortController, private requestGate?: PauseGate) {}
+
+  // 运行ID在 start 事件中产生，登记后才可续连
+  register(runId: string): void {
+    this.runId = runId;
+    runStreams.set(runId, this);
+  }
+
+  // 追加事件并推送给当前连接；缓存已满时丢弃最早的事件（之后的整树更新会恢复完整状态）
+  push(data: StreamEvent): void {
+    const event = { id: this.nextId++, data: JSON.stringify(data) };
+    this.events.push(event);
+    if (this.events.length > this.config.maxBufferedEvents) {
+      this.events.shift();
+    }
+    this.subscribers.forEach(subscriber => subscriber(event));
+  }
+
+  // 运行结束：关闭所有连接，缓存保留一段时间供断线的客户端取回最后的事件
+  end(): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.clearGraceTimer();
+    this.requestGate?.resume();
+    this.subscribers.forEach(subscriber => subscriber(null));
+    this.subscribers.clear();
+
+    const runId = this.runId;
+    if (runId) {
+      setTimeout(() => {
+        if (runStreams.get(runId) === this) runStreams.delete(runId);
+      }, this.config.reconnectGraceMs);
+    }
+  }
+
+  /**
+   * 订阅事件流：先重放 lastEventId 之后的缓存事件，再接收新事件
+   * @param lastEventId 客户端已收到的最后一个事件编号，新连接为 0
+   * @param subscriber 订阅回调
+   * @returns 取消订阅函数；最后一个连接取消后暂停新的模型请求并开始宽限期计时
+   */
+  subscribe(lastEventId: number, subscriber: RunStreamSubscriber): () => void {
+    this.clearGraceTimer();
+    this.requestGate?.resume();
+    this.events
+      .filter(event => event.id > lastEventId)
+      .forEach(event => subscriber(event));
+    if (this.ended) {
+      subscriber(null);
+      return () => undefined;
+    }
+
+    this.subscribers.add(subscriber);
+    return () => {
+      if (!this.subscribers.delete(subscriber) || this.subscribers.size > 0 || this.ended) return;
+      console.log(`运行 ${this.runId ?? '(未开始)'} 的连接已断开，暂停发起新的请求，${this.config.reconnectGraceMs}ms 内未续连将中止`);
+      this.requestGate?.pause();
+      this.graceTimer = setTimeout(() => {
+        console.log(`运行 ${this.runId ?? '(未开始)'} 未在宽限期内续连，中止工作流`);
+        this.abortController?.abort();
+      }, this.config.reconnectGraceMs);
+    };
+  }
+
+  private clearGraceTimer(): void {
+    if (this.graceTimer) {
+      clearTimeout(this.graceTimer);
+      this.graceTimer = null;
+    }
+  }
+}
+
+/**
+ * 获取可续连的运行事件流
+ * @param runId 运行ID
+ * @returns 事件流，运行不存在或缓存已过期时返回 undefined
+ */
+export function getRunStream(runId: string): RunStream | undefined {
+  return runStreams.get(runId);
+}
+
+/**
+ * 为事件流创建一个 SSE 连接：每个事件带 id 字段，空闲时定期发送心跳事件
+ * @param run 运行事件流
+ * @param lastEventId 从该编号之后开始重放，新连接为 0
+ * @param signal 请求的取消信号，客户端断开时结束连接
+ */
+export function createRunStreamResponse(run: RunStream, lastEventId: number, signal?: AbortSignal): Response {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+      let unsubscribe: (() => void) | null = null;
+      const enqueue = (text: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          // 控制器已关闭：按连接断开处理
+          cleanup();
+        }
+      };
+      // 心跳不编号、不缓存，只用于保持连接与让客户端确认连接仍然有效
+      const heartbeat = run.config.heartbeatMs > 0
+        ? setInterval(() => {
+          const heartbeatEvent: StreamEvent = { type: 'heartbeat' };
+          enqueue(`data: ${JSON.stringify(heartbeatEvent)}\n\n`);
+        }, run.config.heartbeatMs)
+        : undefined;
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe?.();
+      };
+      const close = () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // 忽略控制器已关闭的错误
+        }
+      };
+
+      unsubscribe = run.subscribe(lastEventId, event => {
+        if (!event) {
+          close();
+          return;
+        }
+        enqueue(`id: ${event.id}\ndata: ${event.data}\n\n`);
+      });
+      if (closed) {
+        unsubscribe();
+      }
+
+      signal?.addEventListener('abort', close, { once: true });
+    },
+
+    // 客户端断开时流被取消：取消订阅，开始宽限期计时
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST',
+      'Access-Control-Allow-Headers': 'Content-Type, Last-Event-ID',
+    },
+  });
+}
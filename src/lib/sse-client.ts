@@ -0,0 +1,247 @@
+// SSE 客户端 - 读取流式接口的事件流：跨数据块缓冲不完整的行，支持多行 data 字段与事件编号，并按事件类型校验数据
+import { z } from 'zod';
+import { BudgetLimit, StreamEvent, TreeNode, WorkflowState } from '@/types';
+
+// 一条完整的 SSE 消息
+export interface SSEMessage {
+  id: string | null; // 消息的 id 字段，未携带时为 null
+  data: string; // 多行 data 字段以换行拼接
+}
+
+/**
+ * 增量 SSE 解析器
+ * - 数据块可能在任意位置截断，不完整的行留到下一个数据块拼接
+ * - 兼容 \n、\r\n 与 \r 换行，忽略以冒号开头的注释行
+ * - 空行结束一条消息，没有 data 字段的消息不派发
+ */
+export class SSEParser {
+  private buffer = '';
+  private dataLines: string[] = [];
+  private id: string | null = null;
+
+  /**
+   * 追加一个数据块
+   * @returns 本次数据块中结束的消息
+   */
+  push(chunk: string): SSEMessage[] {
+    this.buffer += chunk;
+    const messages: SSEMessage[] = [];
+
+    while (true) {
+      const match = /\r\n|\r|\n/.exec(this.buffer);
+      if (!match) break;
+      // 末尾的 \r 可能是被截断的 \r\n，等待下一个数据块
+      if (match[0] === '\r' && match.index === this.buffer.length - 1) break;
+
+      const line = this.buffer.slice(0, match.index);
+      this.buffer = this.buffer.slice(match.index + match[0].length);
+      const message = this.processLine(line);
+      if (message) messages.push(message);
+    }
+    return messages;
+  }
+
+  private processLine(line: string): SSEMessage | null {
+    if (line === '') {
+      if (this.dataLines.length === 0) return null;
+      const message = { id: this.id, data: this.dataLines.join('\n') };
+      this.dataLines = [];
+      return message;
+    }
+    if (line.startsWith(':')) return null;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'data') {
+      this.dataLines.push(value);
+    } else if (field === 'id' && !value.includes('\0')) {
+      // id 字段对之后的消息持续有效，直到被新的 id 覆盖
+      this.id = value;
+    }
+    return null;
+  }
+}
+
+// 事件中的树只做浅层校验：服务端按同一类型生成，这里只防止格式错误的数据进入画布
+const TreeNodeSchema = z.custom<TreeNode>(
+  value => typeof value === 'object' && value !== null
+    && typeof (value as TreeNode).id === 'string'
+    && typeof (value as TreeNode).content === 'string',
+  { message: 'Invalid tree node' }
+);
+
+const TokenUsageSchema = z.object({
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  totalTokens: z.number(),
+  cost: z.number(),
+  calls: z.number(),
+});
+
+const ServedBySchema = z.object({
+  provider: z.string(),
+  model: z.string(),
+});
+
+const BudgetLimitSchema = z.enum(['max_depth', 'max_nodes', 'max_llm_calls', 'timeout'] satisfies [BudgetLimit, ...BudgetLimit[]]);
+
+const TreePayloadShape = {
+  treeData: TreeNodeSchema.optional(),
+  nodeId: z.string().optional(),
+  subtree: TreeNodeSchema.nullable().optional(),
+};
+
+// 流式事件校验，与 StreamEvent 类型一一对应
+const StreamEventSchema: z.ZodType<StreamEvent> = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('start'), runId: z.string(), message: z.string(), progress: z.number(), mode: z.string() }),
+  z.object({
+    type: z.literal('progress'),
+    message: z.string(),
+    progress: z.number(),
+    usage: TokenUsageSchema.optional(),
+    nodeId: z.string().optional(),
+    judgementResult: z.boolean().optional(),
+    cached: z.boolean().optional(),
+    servedBy: ServedBySchema.optional(),
+    cacheHits: z.number().optional(),
+    limit: BudgetLimitSchema.optional(),
+    failed: z.boolean().optional(),
+    error: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('update'),
+    message: z.string(),
+    cached: z.boolean().optional(),
+    servedBy: ServedBySchema.optional(),
+    progress: z.number(),
+    usage: TokenUsageSchema.optional(),
+    cacheHits: z.number().optional(),
+    ...TreePayloadShape,
+  }),
+  z.object({
+    type: z.literal('partial_update'),
+    nodeId: z.string(),
+    children: z.array(TreeNodeSchema),
+    message: z.string(),
+    progress: z.number(),
+    usage: TokenUsageSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('approval_required'),
+    nodeId: z.string(),
+    children: z.array(TreeNodeSchema),
+    reasoning: z.string().nullable(),
+    message: z.string(),
+    progress: z.number(),
+    usage: TokenUsageSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('complete'),
+    message: z.string(),
+    progress: z.number(),
+    limitReached: BudgetLimitSchema.nullable(),
+    usage: TokenUsageSchema.optional(),
+    cacheHits: z.number().optional(),
+    state: z.custom<WorkflowState>().optional(),
+    ...TreePayloadShape,
+  }),
+  z.object({
+    type: z.literal('terminated'),
+    message: z.string(),
+    progress: z.number(),
+    usage: TokenUsageSchema.optional(),
+    cacheHits: z.number().optional(),
+    state: z.custom<WorkflowState>().optional(),
+    ...TreePayloadShape,
+  }),
+  z.object({ type: z.literal('error'), error: z.string() }),
+  z.object({ type: z.literal('heartbeat') }),
+]);
+
+/**
+ * 解析并校验一条流式事件
+ * @param data 消息的 data 字段
+ * @throws 数据不是合法的 JSON 或不符合任何事件类型时抛出错误
+ */
+export function parseStreamEvent(data: string): StreamEvent {
+  const result = StreamEventSchema.safeParse(JSON.parse(data));
+  if (!result.success) {
+    throw new Error(`Invalid stream event: ${result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ')}`);
+  }
+  return result.data;
+}
+
+// 事件流回调
+export interface StreamEventHandlers {
+  onEvent: (event: StreamEvent) => void; // 每个通过校验的事件，包括心跳
+  onEventId?: (id: string) => void; // 带编号的事件处理完成后调用，用于断线续连
+  onInvalid?: (data: string, error: unknown) => void; // 无法解析或未通过校验的事件，默认打印错误后跳过
+}
+
+export interface ReadEventStreamOptions {
+  idleTimeoutMs?: number; // 超过该时间没有收到任何数据时主动断开，视为连接已失效
+}
+
+/**
+ * 读取一个流式响应直到服务端关闭连接、连接空闲过久或读取出错
+ * @param response 流式接口的响应
+ * @param handlers 事件回调，onEvent 中抛出的错误会中断读取
+ * @param options 读取选项
+ */
+export async function readEventStream(response: Response, handlers: StreamEventHandlers, options: ReadEventStreamOptions = {}): Promise<void> {
+  if (!response.ok) {
+    throw new Error(`事件流请求失败: ${response.status}`);
+  }
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('无法获取响应流');
+  }
+
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  const resetIdleTimer = () => {
+    if (!options.idleTimeoutMs) return;
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      console.warn('事件流长时间无数据，断开连接');
+      reader.cancel().catch(() => undefined);
+    }, options.idleTimeoutMs);
+  };
+
+  const dispatch = (message: SSEMessage) => {
+    let event: StreamEvent;
+    try {
+      event = parseStreamEvent(message.data);
+    } catch (error) {
+      if (handlers.onInvalid) {
+        handlers.onInvalid(message.data, error);
+      } else {
+        console.error('解析流数据失败:', error);
+      }
+      return;
+    }
+    handlers.onEvent(event);
+    if (message.id !== null) {
+      handlers.onEventId?.(message.id);
+    }
+  };
+
+  const parser = new SSEParser();
+  const decoder = new TextDecoder();
+  try {
+    resetIdleTimer();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      resetIdleTimer();
+      // stream: true 保留被截断的多字节字符，与下一个数据块拼接后再解码
+      parser.push(decoder.decode(value, { stream: true })).forEach(dispatch);
+    }
+    // 未以空行结束的最后一条消息按规范丢弃
+    parser.push(decoder.decode()).forEach(dispatch);
+  } finally {
+    clearTimeout(idleTimer);
+  }
+}
@@ -0,0 +1,81 @@
+// 遍历策略 - 决定工作流下一批处理哪些待处理的叶子节点
+import { TraversalStrategy, TreeNode } from "@/types";
+
+export interface TraversalStrategyOption {
+  id: TraversalStrategy;
+  label: string;
+  description: string;
+}
+
+// 默认策略：逐层处理全部叶子节点
+export const DEFAULT_TRAVERSAL_STRATEGY: TraversalStrategy = "breadth";
+
+// 界面中可选的遍历策略
+export const TRAVERSAL_STRATEGIES: TraversalStrategyOption[] = [
+  { id: "breadth", label: "Breadth-first", description: "Expand every branch one level at a time" },
+  { id: "depth", label: "Depth-first", description: "Finish one branch before starting the next" },
+  { id: "best", label: "Best-first", description: "Expand pinned and most promising branches first" },
+];
+
+// 置顶分支的优先级加成，高于任何判断置信度
+const PINNED_PRIORITY = 10;
+
+// 解析请求中的遍历策略，非法值使用默认策略
+export function resolveTraversalStrategy(requested?: string): TraversalStrategy {
+  return TRAVERSAL_STRATEGIES.some(option => option.id === requested)
+    ? (requested as TraversalStrategy)
+    : DEFAULT_TRAVERSAL_STRATEGY;
+}
+
+/**
+ * 计算叶子节点的优先级，越高越先处理
+ * - 节点或其祖先被用户置顶时优先
+ * - 其次按最近一次判断：越确定需要继续分解，说明该分支越值得先展开
+ * @param path 从范围节点到叶子节点的路径
+ */
+export function getLeafPriority(path: TreeNode[]): number {
+  const pinned = path.some(node => node.pinned);
+  const judged = [...path].reverse().find(node => node.judgement);
+  const judgement = judged?.judgement;
+  const confidence = judgement && !judgement.canDirectlyAnswer ? judgement.confidence : 0;
+  return (pinned ? PINNED_PRIORITY : 0) + confidence;
+}
+
+// 待处理的叶子节点及其相对范围节点的深度与优先级
+interface PendingLeaf {
+  node: TreeNode;
+  depth: number;
+  priority: number;
+}
+
+/**
+ * 按遍历策略排列范围节点子树内待处理的叶子节点
+ * - breadth：按树中顺序，调用方每轮处理全部叶子
+ * - depth：先序顺序，新分解出的子节点排在父节点后续兄弟之前，调用方每轮取前若干个即可先完成一个分支
+ * - best：按优先级从高到低，优先级相同时先处理更深的节点，再按树中顺序
+ * @param scopeRoot 范围节点
+ * @param strategy 遍历策略
+ * @param maxDepth 只返回相对范围节点深度不超过该值的叶子节点
+ */
+export function orderPendingLeaves(scopeRoot: TreeNode, strategy: TraversalStrategy, maxDepth: number = Infinity): TreeNode[] {
+  const leaves: PendingLeaf[] = [];
+
+  const visit = (node: TreeNode, path: TreeNode[]) => {
+    const currentPath = [...path, node];
+    if (!node.children || node.children.length === 0) {
+      const depth = currentPath.length - 1;
+      if (node.status === "pending" && node.isLeaf && depth <= maxDepth) {
+        leaves.push({ node, depth, priority: strategy === "best" ? getLeafPriority(currentPath) : 0 });
+      }
+      return;
+    }
+    node.children.forEach(child => visit(child, currentPath));
+  };
+  visit(scopeRoot, []);
+
+  if (strategy === "best") {
+    // Array.prototype.sort 是稳定排序，相同优先级与深度时保持树中顺序
+    leaves.sort((a, b) => b.priority - a.priority || b.depth - a.depth);
+  }
+  return leaves.map(leaf => leaf.node);
+}
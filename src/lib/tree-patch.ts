@@ -0,0 +1,107 @@
+// 树补丁 - 校验并应用审阅 Agent 建议的修改（服务端过滤无效补丁，客户端逐条应用）
+import { TreeNode, TreePatch } from '@/types'
+import { findNodeInTree } from './tree-status'
+
+// 补丁涉及的节点都存在且操作合法时返回 null，否则返回原因
+export function validateTreePatch(tree: TreeNode, patch: TreePatch): string | null {
+  switch (patch.op) {
+    case 'add_child':
+      if (!findNodeInTree(tree, patch.parentId)) return `Node ${patch.parentId} not found`
+      if (!patch.content.trim()) return 'Content is empty'
+      return null
+    case 'update_content':
+      if (!findNodeInTree(tree, patch.nodeId)) return `Node ${patch.nodeId} not found`
+      if (!patch.content.trim()) return 'Content is empty'
+      return null
+    case 'remove_node':
+      if (patch.nodeId === tree.id) return 'The root node cannot be removed'
+      if (!findNodeInTree(tree, patch.nodeId)) return `Node ${patch.nodeId} not found`
+      return null
+    case 'move_node': {
+      if (patch.nodeId === tree.id) return 'The root node cannot be moved'
+      const node = findNodeInTree(tree, patch.nodeId)
+      if (!node) return `Node ${patch.nodeId} not found`
+      if (!findNodeInTree(tree, patch.newParentId)) return `Node ${patch.newParentId} not found`
+      // 不能移动到自身或自己的子树下
+      if (findNodeInTree(node, patch.newParentId)) return 'A node cannot be moved under itself'
+      return null
+    }
+    default:
+      return 'Unknown patch operation'
+  }
+}
+
+// 为父节点的新子节点分配未被占用的ID
+function nextChildId(tree: TreeNode, parentId: string): string {
+  let index = (findNodeInTree(tree, parentId)?.children?.length ?? 0) + 1
+  while (findNodeInTree(tree, `${parentId}-${index}`)) index++
+  return `${parentId}-${index}`
+}
+
+// 替换节点的子节点；子节点列表在有无之间变化时同步叶子标记与状态
+// - 叶子获得子节点：视为已分解完成，清除叶子才有的判断结论、失败与限制标记
+// - 父节点失去全部子节点：恢复为待处理的叶子，续跑时重新判断
+function withChildren(node: TreeNode, children: TreeNode[]): TreeNode {
+  const hadChildren = !!node.children && node.children.length > 0
+  if (children.length === 0) {
+    return hadChildren
+      ? { ...node, children: null, isLeaf: true, status: 'pending' }
+      : { ...node, children: null }
+  }
+  return hadChildren
+    ? { ...node, children }
+    : { ...node, children, isLeaf: false, status: 'completed', canDirectlyAnswer: undefined, error: undefined, limitReached: undefined }
+}
+
+// 对树中的每个节点应用变换（变换返回 null 时移除该节点）
+function mapTree(node: TreeNode, fn: (node: TreeNode) => TreeNode | null): TreeNode | null {
+  const mapped = fn(node)
+  if (!mapped) return null
+  if (!mapped.children) return mapped
+  const children = mapped.children
+    .map(child => mapTree(child, fn))
+    .filter((child): child is TreeNode => child !== null)
+  return withChildren(mapped, children)
+}
+
+// 将节点追加为父节点的子节点
+function appendChild(tree: TreeNode, parentId: string, child: TreeNode): TreeNode {
+  return mapTree(tree, node =>
+    node.id === parentId
+      ? { ...withChildren(node, [...(node.children ?? []), child]), expanded: true }
+      : node
+  )!
+}
+
+/**
+ * 应用一个补丁并返回新的树
+ * @throws 如果补丁无效（节点不存在、移除或移动根节点等），则抛出错误
+ */
+export function applyTreePatch(tree: TreeNode, patch: TreePatch): TreeNode {
+  const problem = validateTreePatch(tree, patch)
+  if (problem) {
+    throw new Error(problem)
+  }
+
+  switch (patch.op) {
+    case 'add_child':
+      return appendChild(tree, patch.parentId, {
+        id: nextChildId(tree, patch.parentId),
+        content: patch.content.trim(),
+        children: null,
+        expanded: false,
+        status: 'pending',
+        isLeaf: true,
+      })
+    case 'update_content':
+      return mapTree(tree, node => (node.id === patch.nodeId ? { ...node, content: patch.content.trim() } : node))!
+    case 'remove_node':
+      return mapTree(tree, node => (node.id === patch.nodeId ? null : node))!
+    case 'move_node': {
+      // 移动时保留节点ID，避免与其他引用失去对应
+      const node = findNodeInTree(tree, patch.nodeId)!
+      const detached = mapTree(tree, n => (n.id === patch.nodeId ? null : n))!
+      return appendChild(detached, patch.newParentId, node)
+    }
+  }
+}
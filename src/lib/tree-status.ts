@@ -0,0 +1,62 @@
+// 树节点工具 - 服务端续跑、子树重新分解与客户端界面共用的树操作
+import { TreeNode } from '@/types'
+
+// 可续跑的叶子状态：未判断、处理中被中断、等待分解、失败或因预算停止
+const RESUMABLE_LEAF_STATUSES = new Set<TreeNode['status']>([
+  undefined,
+  'pending',
+  'processing',
+  'need_decomposition',
+  'failed',
+  'limit_reached',
+])
+
+// 叶子节点是否需要在续跑时重新处理（已判断可直接回答或已完成的节点保持不变）
+export function isResumableLeaf(node: TreeNode): boolean {
+  const isLeaf = !node.children || node.children.length === 0
+  return isLeaf && RESUMABLE_LEAF_STATUSES.has(node.status)
+}
+
+// 树中是否存在可续跑的叶子节点
+export function hasResumableLeaves(tree: TreeNode): boolean {
+  if (isResumableLeaf(tree)) return true
+  return !!tree.children && tree.children.some(hasResumableLeaves)
+}
+
+// 将可续跑的叶子节点重置为待处理，清除上次运行留下的失败与限制标记
+export function resetResumableLeaves(tree: TreeNode): TreeNode {
+  if (isResumableLeaf(tree)) {
+    return {
+      ...tree,
+      children: null,
+      status: 'pending',
+      isLeaf: true,
+      error: undefined,
+      limitReached: undefined,
+    }
+  }
+  if (!tree.children) return tree
+  return { ...tree, children: tree.children.map(resetResumableLeaves) }
+}
+
+// 按 ID 查找节点，找不到时返回 null
+export function findNodeInTree(tree: TreeNode, nodeId: string): TreeNode | null {
+  if (tree.id === nodeId) return tree
+  if (!tree.children) return null
+  for (const child of tree.children) {
+    const found = findNodeInTree(child, nodeId)
+    if (found) return found
+  }
+  return null
+}
+
+// 从根节点到指定节点的路径（含两端），找不到时返回空数组
+export function findNodePath(tree: TreeNode, nodeId: string): TreeNode[] {
+  if (tree.id === nodeId) return [tree]
+  if (!tree.children) return []
+  for (const child of tree.children) {
+    const path = findNodePath(child, nodeId)
+    if (path.length > 0) return [tree, ...path]
+  }
+  return []
+}
@@ -0,0 +1,57 @@
+// Token 用量统计 - 记录每次 LLM 调用的用量并估算费用
+
+import { TokenUsage } from "@/types";
+import { ModelPricing } from "./ai-config";
+
+// OpenAI 兼容接口返回的 usage 字段
+export interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+// 创建空的用量记录
+export function createEmptyUsage(): TokenUsage {
+  return {
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    calls: 0,
+  };
+}
+
+/**
+ * 将接口返回的 usage 转换为用量记录，并按模型价格估算费用
+ * @param usage 接口返回的 usage，缺失时按 0 计算
+ * @param pricing 模型价格，未配置时费用为 0
+ */
+export function toTokenUsage(usage: CompletionUsage | null | undefined, pricing?: ModelPricing): TokenUsage {
+  const promptTokens = usage?.prompt_tokens ?? 0;
+  const completionTokens = usage?.completion_tokens ?? 0;
+  const cost = pricing
+    ? (promptTokens * pricing.inputPerMillion + completionTokens * pricing.outputPerMillion) / 1_000_000
+    : 0;
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage?.total_tokens ?? promptTokens + completionTokens,
+    cost,
+    calls: 1,
+  };
+}
+
+// 累加两份用量记录
+export function addUsage(base: TokenUsage | undefined, extra: TokenUsage | undefined): TokenUsage {
+  const a = base ?? createEmptyUsage();
+  if (!extra) return a;
+
+  return {
+    promptTokens: a.promptTokens + extra.promptTokens,
+    completionTokens: a.completionTokens + extra.completionTokens,
+    totalTokens: a.totalTokens + extra.totalTokens,
+    cost: a.cost + extra.cost,
+    calls: a.calls + extra.calls,
+  };
+}
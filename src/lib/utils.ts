@@ -614,4 +614,57 @@ export async function exportFlowToPNG(
   await exportFlowToPNGViaSVG(elementSelector, filename, scale)
 }
 
- 
\ No newline at end of file
+// 将树转换为 Markdown：根节点为标题，其余节点为嵌套列表，分解依据以引用块、解答以缩进段落附在对应节点下
+export function treeToMarkdown(tree: TreeNode): string {
+  const lines: string[] = [`# ${tree.content}`, '']
+
+  const formatDecomposition = (node: TreeNode, indent: string) => {
+    const decomposition = node.decomposition
+    if (!decomposition?.reasoning) return
+    const reasoning = decomposition.reasoning.replace(/\s*\n\s*/g, ' ')
+    lines.push(`${indent}> **Why these children?** ${reasoning} _(${decomposition.mode}, ${decomposition.promptVariant})_`)
+  }
+
+  formatDecomposition(tree, '')
+  if (tree.decomposition?.reasoning) lines.push('')
+
+  // 解答为多行 Markdown，整体缩进到列表项下，前后空行保证正确嵌套
+  const formatAnswer = (node: TreeNode, indent: string) => {
+    if (!node.answer?.content.trim()) return
+    lines.push('')
+    node.answer.content.trim().split('\n').forEach(line => {
+      lines.push(line.trim() ? `${indent}${line}` : '')
+    })
+    lines.push('')
+  }
+
+  const traverse = (node: TreeNode, depth: number) => {
+    const indent = '  '.repeat(depth)
+    lines.push(`${indent}- ${node.content}`)
+    formatDecomposition(node, `${indent}  `)
+    formatAnswer(node, `${indent}  `)
+    node.children?.forEach(child => traverse(child, depth + 1))
+  }
+  tree.children?.forEach(child => traverse(child, 0))
+
+  return lines.join('\n') + '\n'
+}
+
+// 导出树为 Markdown 文件
+export function exportTreeToMarkdown(
+  tree: TreeNode,
+  filename: string = 'flow-diagram.md'
+): void {
+  try {
+    const blob = new Blob([treeToMarkdown(tree)], { type: 'text/markdown;charset=utf-8' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.download = filename
+    link.href = url
+    link.click()
+    URL.revokeObjectURL(url)
+  } catch (error: unknown) {
+    console.error('Markdown导出失败：', error)
+    throw new Error('Markdown导出失败，请重试')
+  }
+}
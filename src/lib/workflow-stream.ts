@@ -0,0 +1,216 @@
+// 工作流事件的 SSE 编码 - 将 WorkflowEvent 转换为前端使用的流数据格式
+import { DecomposeMode, StreamEvent, StreamTreePayload, TreeNode, WorkflowEvent } from '@/types';
+import { findNodeInTree } from './tree-status';
+import { RunStream, createRunStreamResponse, loadRunStreamConfig } from './run-stream';
+import { PauseGate } from './concurrency';
+
+// 根据已处理节点数计算进度百分比
+function getProgress(state: { processedNodes: number; totalNodes: number }): number {
+  return Math.round((state.processedNodes / state.totalNodes) * 100);
+}
+
+// 树数据字段：整树运行返回完整的树，子树运行只返回范围节点的子树
+function treePayload(tree: TreeNode, scopeNodeId?: string): StreamTreePayload {
+  if (!scopeNodeId) {
+    return { treeData: tree };
+  }
+  return { nodeId: scopeNodeId, subtree: findNodeInTree(tree, scopeNodeId) };
+}
+
+/**
+ * 将工作流事件转换为发送给前端的数据
+ * @param event 工作流事件
+ * @param mode 当前分解模式
+ * @param scopeNodeId 子树运行（重新分解）的目标节点ID
+ * @returns 流数据，未知事件类型返回 null
+ */
+export function toStreamData(event: WorkflowEvent, mode: DecomposeMode, scopeNodeId?: string): StreamEvent | null {
+  switch (event.type) {
+    case 'start':
+      return {
+        type: 'start',
+        runId: event.runId, // 返回本次运行ID，终止时需携带
+        message: event.message,
+        progress: 0,
+        mode: mode // 返回当前分解模式
+      };
+
+    case 'decompose_node':
+      return {
+        type: 'progress',
+        message: event.message,
+        progress: getProgress(event.state),
+        usage: event.state.usage // 本次运行累计的 token 用量
+      };
+
+    case 'judge_node':
+      return {
+        type: 'progress',
+        message: event.message,
+        nodeId: event.nodeId,
+        judgementResult: event.result,
+        cached: event.cached, // 判断结果来自响应缓存
+        servedBy: event.servedBy, // 实际完成判断的提供商与模型
+        progress: getProgress(event.state),
+        usage: event.state.usage,
+        cacheHits: event.state.cacheHits
+      };
+
+    case 'update_tree':
+      return {
+        type: 'update',
+        ...treePayload(event.tree, scopeNodeId),
+        message: event.message,
+        cached: event.cached, // 分解或解答结果来自响应缓存
+        servedBy: event.servedBy, // 实际完成分解或解答的提供商与模型
+        progress: getProgress(event.state),
+        usage: event.state.usage,
+        cacheHits: event.state.cacheHits
+      };
+
+    case 'progress':
+      return {
+        type: 'progress',
+        message: event.message,
+        progress: event.progress,
+        usage: event.state.usage
+      };
+
+    case 'limit_reached':
+      return {
+        type: 'progress',
+        message: event.message,
+        nodeId: event.nodeId,
+        limit: event.limit,
+        progress: getProgress(event.state),
+        usage: event.state.usage
+      };
+
+    case 'node_failed':
+      return {
+        type: 'progress',
+        message: event.message,
+        nodeId: event.nodeId,
+        failed: true,
+        error: event.error,
+        progress: getProgress(event.state),
+        usage: event.state.usage
+      };
+
+    case 'answer_node':
+      return {
+        type: 'progress',
+        message: event.message,
+        nodeId: event.nodeId,
+        progress: getProgress(event.state),
+        usage: event.state.usage
+      };
+
+    case 'partial_update':
+      return {
+        type: 'partial_update',
+        nodeId: event.nodeId,
+        children: event.children, // 流式分解中已写完的子项，最终结果到达后被替换
+        message: event.message,
+        progress: getProgress(event.state),
+        usage: event.state.usage
+      };
+
+    case 'approval_required':
+      return {
+        type: 'approval_required',
+        nodeId: event.nodeId,
+        children: event.children, // 提议的子节点，审批通过前以虚影显示
+        reasoning: event.reasoning,
+        message: event.message,
+        progress: getProgress(event.state),
+        usage: event.state.usage
+      };
+
+    case 'complete':
+      return {
+        type: 'complete',
+        ...treePayload(event.finalTree, scopeNodeId),
+        message: event.message,
+        progress: 100,
+        limitReached: event.limitReached, // 结束运行的预算限制，未触发时为 null
+        usage: event.state.usage,
+        cacheHits: event.state.cacheHits, // 本次运行命中响应缓存的调用次数
+        state: event.state
+      };
+
+    case 'terminated':
+      return {
+        type: 'terminated',
+        ...treePayload(event.finalTree, scopeNodeId),
+        message: event.message,
+        progress: getProgress(event.state),
+        usage: event.state.usage,
+        cacheHits: event.state.cacheHits,
+        state: event.state
+      };
+
+    case 'error':
+      return {
+        type: 'error',
+        error: event.error
+      };
+
+    default:
+      return null; // 跳过未知事件类型
+  }
+}
+
+// 创建 SSE 响应的选项
+export interface WorkflowStreamOptions {
+  mode: DecomposeMode; // 当前分解模式
+  scopeNodeId?: string; // 子树运行（重新分解）的目标节点ID
+  abortController?: AbortController; // 传给工作流的取消控制器，连接断开且超过续连宽限期时触发
+  requestGate?: PauseGate; // 传给工作流的请求闸门，连接断开期间暂停、续连后恢复
+  signal?: AbortSignal; // 请求的取消信号，客户端断开时结束连接
+}
+
+// 在后台消费工作流事件并写入运行事件流，不受连接断开影响
+async function pumpWorkflowEvents(events: AsyncGenerator<WorkflowEvent>, run: RunStream, options: WorkflowStreamOptions): Promise<void> {
+  try {
+    for await (const event of events) {
+      const streamData = toStreamData(event, options.mode, options.scopeNodeId);
+      if (!streamData) {
+        continue;
+      }
+
+      // 运行ID产生后登记事件流，断线的客户端凭此续连
+      if (event.type === 'start') {
+        run.register(event.runId);
+      }
+      run.push(streamData);
+
+      // 完成、终止或错误事件之后结束事件流
+      if (event.type === 'complete' || event.type === 'terminated' || event.type === 'error') {
+        break;
+      }
+    }
+  } catch (error) {
+    console.error('流式工作流出错:', error);
+    run.push({
+      type: 'error',
+      error: error instanceof Error ? error.message : '工作流执行过程中发生错误'
+    });
+  } finally {
+    run.end();
+  }
+}
+
+/**
+ * 将工作流事件流包装为可续连的 SSE 响应
+ * - 事件编号并按运行缓存，连接断开后可通过 /api/reconnect-stream 携带 Last-Event-ID 续连
+ * - 连接空闲时定期发送心跳事件
+ * - 最后一个连接断开后暂停发起新的模型请求，超过宽限期仍未续连时中止工作流
+ * @param events 工作流事件生成器
+ * @param options 分解模式、子树范围与取消控制
+ */
+export function createWorkflowStreamResponse(events: AsyncGenerator<WorkflowEvent>, options: WorkflowStreamOptions): Response {
+  const run = new RunStream(loadRunStreamConfig(), options.abortController, options.requestGate);
+  void pumpWorkflowEvents(events, run, options);
+  return createRunStreamResponse(run, 0, options.signal);
+}
@@ -1,6 +1,15 @@
-import { create } from 'zustand'
-import { FlowState, TreeNode, FlowNode, FlowEdge, DecomposeMode } from '@/types'
+import { create, StoreApi } from 'zustand'
+import { FlowState, TreeNode, FlowNode, FlowEdge, DecomposeMode, WorkflowOptions, OutputLanguage, TreeReview, NodeAnswer, TokenUsage, TraversalStrategy, ChildCountLimits, ApprovalDecision, PendingApproval, StreamEvent, StreamTreePayload } from '@/types'
 import { treeToFlowData, computeLayeredGridLayout, DEFAULT_LAYOUT_CONFIG } from '@/lib/utils'
+import { DEFAULT_MODE_ID, isBuiltinMode } from '@/lib/modes'
+import { DEFAULT_OUTPUT_LANGUAGE } from '@/lib/languages'
+import { DEFAULT_TRAVERSAL_STRATEGY } from '@/lib/traversal'
+import { applyTreePatch } from '@/lib/tree-patch'
+import { findNodeInTree } from '@/lib/tree-status'
+import { addUsage } from '@/lib/usage'
+import { delay } from '@/lib/retry'
+import { readEventStream } from '@/lib/sse-client'
+import { useModeStore } from './useModeStore'
 
 
 
@@ -12,6 +21,355 @@ function convertTreeToFlowData(treeData: TreeNode | null, nodeWidths: Record<str
   return treeToFlowData(treeData, 0, 0, nodeWidths)
 }
 
+// 用新的子树替换树中指定节点
+function replaceSubtree(tree: TreeNode, nodeId: string, subtree: TreeNode): TreeNode {
+  if (tree.id === nodeId) return subtree
+  if (!tree.children) return tree
+  return { ...tree, children: tree.children.map(child => replaceSubtree(child, nodeId, subtree)) }
+}
+
+// 节点的子项全部是流式预览或等待审批的提议子项（尚无最终结果）
+function hasOnlyPreviewChildren(node: TreeNode): boolean {
+  return !!node.children && node.children.length > 0 && node.children.every(child => child.status === 'processing' || child.status === 'proposed')
+}
+
+// 把整棵树中只挂着预览或提议子项的节点恢复为未分解的叶子
+function stripPreviewChildren(tree: TreeNode): TreeNode {
+  if (hasOnlyPreviewChildren(tree)) return { ...tree, children: null }
+  if (!tree.children) return tree
+  const children = tree.children.map(stripPreviewChildren)
+  return children.every((child, index) => child === tree.children![index]) ? tree : { ...tree, children }
+}
+
+// 使用自定义模式时在请求中携带模式定义（服务端只内置了内置模式）
+function withCustomModes(requestBody: Record<string, unknown>): Record<string, unknown> {
+  const mode = requestBody.mode
+  if (typeof mode !== 'string' || isBuiltinMode(mode)) return requestBody
+  const customModes = useModeStore.getState().customModes.filter(m => m.id === mode)
+  return { ...requestBody, customModes }
+}
+
+// 请求服务端终止运行：服务端立即中止该运行进行中的请求，不等待断线续连的宽限期
+// 使用 keepalive，随后取消事件流请求或关闭页面时该请求仍会送达
+function requestRunTermination(runId: string) {
+  fetch('/api/terminate-decomposition', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ runId }),
+    keepalive: true
+  }).catch(error => {
+    console.warn('调用后端终止方法失败:', error)
+  })
+}
+
+// 事件流断开后的续连次数上限与首次等待时间（之后每次翻倍）
+const MAX_RECONNECT_ATTEMPTS = 5
+const RECONNECT_BASE_DELAY_MS = 1000
+// 超过该时间没有收到任何数据（包括心跳）时视为连接已失效，约为服务端默认心跳间隔的 3 倍
+const STREAM_IDLE_TIMEOUT_MS = 45000
+
+// 发起分解请求并消费事件流（新分解、续跑与子树重新分解共用）
+// 整树运行用返回的树替换当前树；指定 scopeNodeId 时只替换该节点的子树
+async function streamTreeDecomposition(
+  set: StoreApi<FlowState>['setState'],
+  get: StoreApi<FlowState>['getState'],
+  endpoint: string,
+  requestBody: Record<string, unknown>,
+  abortController: AbortController,
+  scopeNodeId?: string
+) {
+  // 子树运行返回的子树嫁接到最新的树上，避免覆盖运行期间其他位置的编辑
+  const resolveEventTree = (data: StreamTreePayload): TreeNode | null => {
+    if (!scopeNodeId) return data.treeData ?? null
+    const { treeData } = get()
+    return data.subtree && treeData ? replaceSubtree(treeData, scopeNodeId, data.subtree) : null
+  }
+
+  // 流式分解中的节点预览子项与等待审批的提议子项，按节点ID索引；该节点的最终结果到达、被拒绝或处理结束后移除
+  // 其他节点的更新会带来不含预览的整树，需要把仍在分解的节点的预览重新挂上
+  const partialChildren = new Map<string, TreeNode[]>()
+  const withPartialChildren = (tree: TreeNode): TreeNode => {
+    let result = tree
+    partialChildren.forEach((children, nodeId) => {
+      const node = findNodeInTree(result, nodeId)
+      if (!node || (node.children && node.children.length > 0) || node.status === 'failed' || node.status === 'limit_reached' || node.status === 'completed') {
+        partialChildren.delete(nodeId)
+        return
+      }
+      result = replaceSubtree(result, nodeId, { ...node, children, expanded: true })
+    })
+    return result
+  }
+
+  // 运行结束时把仍挂着预览子项或等待审批的提议子项的节点恢复为未分解的叶子，避免其被自动保存，或在续跑时被当作已分解的节点
+  const clearPartialChildren = () => {
+    const { treeData, nodeWidths } = get()
+    if (partialChildren.size === 0 || !treeData) {
+      partialChildren.clear()
+      return
+    }
+    let result = treeData
+    partialChildren.forEach((_, nodeId) => {
+      const node = findNodeInTree(result, nodeId)
+      // 最终结果已经替换了预览的节点保持不变
+      if (node && hasOnlyPreviewChildren(node)) {
+        result = replaceSubtree(result, nodeId, { ...node, children: null })
+      }
+    })
+    partialChildren.clear()
+    if (result !== treeData) {
+      const { nodes, edges } = convertTreeToFlowData(result, nodeWidths)
+      set({ treeData: result, nodes, edges })
+    }
+  }
+
+  // 本次运行是否仍是当前运行：被新的运行取代（如重新分解时取消了旧运行）后，迟到的事件与清理不再改动新运行的状态
+  const isCurrentRun = () => get().currentAbortController === abortController
+
+  // 服务端事件编号与运行ID，连接意外断开后凭此续连并只接收缺失的事件
+  let runId: string | null = null
+  let lastEventId = 0
+  // 收到完成、终止或错误事件后不再续连
+  let finished = false
+  // 连续续连次数，收到新事件后清零
+  let reconnectAttempts = 0
+
+  const handleEvent = (data: StreamEvent) => {
+    // 心跳只用于保持连接
+    if (data.type === 'heartbeat' || !isCurrentRun()) return
+    if (data.type === 'complete' || data.type === 'terminated' || data.type === 'error') {
+      finished = true
+      clearPartialChildren()
+    }
+
+    const currentState = get()
+    const eventTree = data.type === 'update' || data.type === 'complete' || data.type === 'terminated' ? resolveEventTree(data) : null
+
+    // 同步本次运行累计的 token 用量
+    if ('usage' in data && data.usage) {
+      set({ decomposingUsage: data.usage })
+    }
+    
+    if (data.type === 'start') {
+      // 记录服务端运行ID，终止时定向到本次运行
+      runId = data.runId || null
+      set({ currentRunId: runId })
+    } else if (data.type === 'partial_update' && currentState.treeData) {
+      // 流式预览：显示节点已写完的子项，不触发自动保存
+      partialChildren.set(data.nodeId, data.children)
+      const previewTree = withPartialChildren(currentState.treeData)
+      const { nodes, edges } = convertTreeToFlowData(previewTree, currentState.nodeWidths)
+      set({
+        treeData: previewTree,
+        nodes,
+        edges,
+        decomposingProgress: data.progress || currentState.decomposingProgress,
+        decomposingMessage: data.message || currentState.decomposingMessage
+      })
+    } else if (data.type === 'approval_required' && currentState.treeData) {
+      // 审批模式：提议的子项以虚影显示，等待用户接受、编辑、拒绝或重新生成
+      partialChildren.set(data.nodeId, data.children)
+      const previewTree = withPartialChildren(currentState.treeData)
+      const { nodes, edges } = convertTreeToFlowData(previewTree, currentState.nodeWidths)
+      const approval: PendingApproval = { nodeId: data.nodeId, children: data.children, reasoning: data.reasoning ?? null }
+      set({
+        treeData: previewTree,
+        nodes,
+        edges,
+        pendingApprovals: [...currentState.pendingApprovals.filter(a => a.nodeId !== data.nodeId), approval],
+        decomposingMessage: data.message || currentState.decomposingMessage
+      })
+    } else if (data.type === 'update' && eventTree) {
+      // 更新树数据，仍在分解的节点保留预览子项
+      const { nodeWidths } = get()
+      const displayTree = withPartialChildren(eventTree)
+      const { nodes, edges } = convertTreeToFlowData(displayTree, nodeWidths)
+      set({ 
+        treeData: displayTree,
+        nodes,
+        edges,
+        decomposingProgress: data.progress || currentState.decomposingProgress,
+        decomposingMessage: data.message || currentState.decomposingMessage,
+        isNewDecomposition: false // 标记为非新分解
+      })
+      // 自动保存：当节点更新时（更新当前会话）；仍有预览子项时等到下一次更新，避免保存预览
+      const state = get()
+      if (state.autoSaveCallback && partialChildren.size === 0) {
+        state.autoSaveCallback()
+      }
+    } else if (data.type === 'progress') {
+      // 节点分解失败或因预算停止时移除其预览子项
+      if (data.nodeId && (data.failed || data.limit) && partialChildren.delete(data.nodeId) && currentState.treeData) {
+        const node = findNodeInTree(currentState.treeData, data.nodeId)
+        if (node) {
+          const treeData = replaceSubtree(currentState.treeData, data.nodeId, { ...node, children: null })
+          const { nodes, edges } = convertTreeToFlowData(treeData, currentState.nodeWidths)
+          set({ treeData, nodes, edges })
+        }
+      }
+      // 只更新进度
+      set({ 
+        decomposingProgress: data.progress || currentState.decomposingProgress,
+        decomposingMessage: data.message || currentState.decomposingMessage
+      })
+    } else if (data.type === 'complete') {
+      // 分解完成
+      if (eventTree) {
+        const { nodeWidths } = get()
+        const { nodes, edges } = convertTreeToFlowData(eventTree, nodeWidths)
+        set({ 
+          treeData: eventTree,
+          nodes,
+          edges,
+          isDecomposing: false,
+          decomposingProgress: 100,
+          decomposingMessage: data.message || '分解完成',
+          currentAbortController: null,
+          currentRunId: null,
+          isNewDecomposition: false
+        })
+        // 自动保存：当分解完成时（完成当前会话）
+        const state = get()
+        if (state.autoSaveCallback) {
+          state.autoSaveCallback()
+        }
+      } else {
+        set({ 
+          isDecomposing: false,
+          decomposingProgress: 100,
+          decomposingMessage: data.message || '分解完成',
+          currentAbortController: null,
+          currentRunId: null,
+          isNewDecomposition: false
+        })
+      }
+    } else if (data.type === 'terminated') {
+      // 分解被终止
+      if (eventTree) {
+        const { nodeWidths } = get()
+        const { nodes, edges } = convertTreeToFlowData(eventTree, nodeWidths)
+        set({ 
+          treeData: eventTree,
+          nodes,
+          edges,
+          isDecomposing: false,
+          decomposingMessage: data.message || '分解已终止',
+          currentAbortController: null,
+          currentRunId: null,
+          isNewDecomposition: true
+        })
+      } else {
+        set({ 
+          isDecomposing: false,
+          decomposingMessage: data.message || '分解已终止',
+          currentAbortController: null,
+          currentRunId: null,
+          isNewDecomposition: true
+        })
+      }
+    } else if (data.type === 'error') {
+      // 分解出错
+      set({ 
+        isDecomposing: false,
+        decomposingProgress: 0,
+        decomposingMessage: data.error || '分解过程中发生错误',
+        currentAbortController: null,
+        currentRunId: null,
+        isNewDecomposition: true
+      })
+    }
+  }
+
+  // 带编号的事件处理完成后记录编号；收到新事件说明连接已恢复，续连次数清零
+  const handleEventId = (id: string) => {
+    const eventId = Number(id)
+    if (eventId > lastEventId) {
+      lastEventId = eventId
+      reconnectAttempts = 0
+    }
+  }
+
+  try {
+    let response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(withCustomModes(requestBody)),
+      signal: abortController.signal
+    })
+
+    if (!response.ok) {
+      throw new Error('分解任务失败')
+    }
+
+    while (true) {
+      try {
+        await readEventStream(response, { onEvent: handleEvent, onEventId: handleEventId }, { idleTimeoutMs: STREAM_IDLE_TIMEOUT_MS })
+      } catch (readError) {
+        if (abortController.signal.aborted) throw readError
+        console.warn('事件流读取中断:', readError)
+      }
+      if (finished || abortController.signal.aborted) {
+        break
+      }
+
+      // 连接在运行结束前断开：服务端在宽限期内保留运行，携带 Last-Event-ID 续连
+      if (!runId || reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+        throw new Error('与服务端的连接已断开')
+      }
+      reconnectAttempts++
+      set({ decomposingMessage: `连接已断开，正在重新连接 (${reconnectAttempts}/${MAX_RECONNECT_ATTEMPTS})...` })
+      await delay(RECONNECT_BASE_DELAY_MS * 2 ** (reconnectAttempts - 1), abortController.signal)
+
+      response = await fetch(`/api/reconnect-stream?runId=${encodeURIComponent(runId)}`, {
+        headers: {
+          'Last-Event-ID': String(lastEventId),
+        },
+        signal: abortController.signal
+      })
+      if (response.status === 404) {
+        throw new Error('运行已结束或已过期，无法重新连接')
+      }
+    }
+  } catch (error) {
+    // 已被新的运行取代：新运行的控制器、运行ID与预览都不属于本次运行，保持不变
+    if (!isCurrentRun()) return
+    // 如果是用户主动取消，不显示错误信息
+    clearPartialChildren()
+    if (abortController.signal.aborted || (error instanceof Error && error.name === 'AbortError')) {
+      console.log('分解过程被用户终止')
+      set({ 
+        isDecomposing: false,
+        decomposingMessage: '分解已终止',
+        currentAbortController: null,
+        currentRunId: null,
+        isNewDecomposition: true
+      })
+      return
+    }
+    
+    console.error('流式分解失败:', error)
+    set({ 
+      isDecomposing: false,
+      decomposingProgress: 0,
+      decomposingMessage: `分解失败: ${error instanceof Error ? error.message : '未知错误'}`,
+      currentAbortController: null,
+      currentRunId: null,
+      isNewDecomposition: true
+    })
+    throw error
+  } finally {
+    // 运行结束后服务端不再等待审批：提议子项与等待审批的条目一起移除
+    if (isCurrentRun()) {
+      clearPartialChildren()
+      set({ pendingApprovals: [] })
+    }
+  }
+}
+
 export const useFlowStore = create<FlowState>((set, get) => ({
   nodes: [],
   edges: [],
@@ -22,14 +380,24 @@ export const useFlowStore = create<FlowState>((set, get) => ({
   isDecomposing: false,
   decomposingProgress: 0,
   decomposingMessage: '',
+  decomposingUsage: null,
   currentAbortController: null as AbortController | null,
+  currentRunId: null as string | null,
   autoSaveCallback: null as (() => void) | null,
   isNewDecomposition: true,
-  decomposeMode: 'concept' as DecomposeMode, // 新增：默认分解模式
+  decomposeMode: DEFAULT_MODE_ID as DecomposeMode, // 新增：默认分解模式
+  outputLanguage: DEFAULT_OUTPUT_LANGUAGE as OutputLanguage, // 新增：默认输出语言
+  traversalStrategy: DEFAULT_TRAVERSAL_STRATEGY as TraversalStrategy, // 新增：最近一次分解使用的遍历策略
+  childLimits: null as ChildCountLimits | null, // 新增：最近一次分解使用的子节点数量限制
+  approvalMode: false, // 新增：最近一次分解是否逐步审批
+  pendingApprovals: [] as PendingApproval[], // 新增：等待审批的分解结果
   // 新增：可见性与布局控制
   collapsedNodeIds: new Set<string>(),
   maxVisibleLevel: DEFAULT_LAYOUT_CONFIG.defaultExpandedLevels,
   layoutConfig: DEFAULT_LAYOUT_CONFIG,
+  answeringNodeIds: new Set<string>(),
+  review: null,
+  isReviewing: false,
   
   setNodes: (nodes) => {
     set({ nodes })
@@ -67,198 +435,106 @@ export const useFlowStore = create<FlowState>((set, get) => ({
   },
 
   // 启动流式分解
-  startStreamDecomposition: async (inputText: string, mode: DecomposeMode = 'concept') => {
+  startStreamDecomposition: async (inputText: string, mode: DecomposeMode = DEFAULT_MODE_ID, options: WorkflowOptions = {}) => {
     // 创建新的 AbortController
     const abortController = new AbortController()
+    const language = options.language ?? get().outputLanguage
+    const strategy = options.strategy ?? get().traversalStrategy
+    const childLimits = options.childLimits ?? null
+    const approvalMode = !!options.approvalMode
     
     set({ 
       isDecomposing: true, 
       decomposingProgress: 0, 
       decomposingMessage: '准备开始分解...',
+      decomposingUsage: null,
       currentAbortController: abortController,
+      currentRunId: null,
       isNewDecomposition: true,
-      decomposeMode: mode // 设置当前分解模式
+      decomposeMode: mode, // 设置当前分解模式
+      outputLanguage: language,
+      traversalStrategy: strategy,
+      childLimits,
+      approvalMode
     })
     
-    try {
-      const response = await fetch('/api/decompose-stream', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ text: inputText, mode }), // 传递分解模式
-        signal: abortController.signal
-      })
+    // 传递分解模式、输出语言、遍历策略与运行选项（并发、预算、子节点数量限制）
+    await streamTreeDecomposition(set, get, '/api/decompose-stream', { text: inputText, mode, ...options, language, strategy }, abortController)
+  },
 
-      if (!response.ok) {
-        throw new Error('分解任务失败')
-      }
+  // 从当前树继续分解：只处理待处理、未判断、失败或因预算停止的叶子节点
+  resumeDecomposition: async (options: WorkflowOptions = {}) => {
+    const { treeData, decomposeMode, outputLanguage, traversalStrategy, childLimits, approvalMode } = get()
+    if (!treeData) return
 
-      const reader = response.body?.getReader()
-      if (!reader) {
-        throw new Error('无法获取响应流')
-      }
+    // 优先使用根节点分解时记录的模式
+    const mode = treeData.decomposition?.mode ?? decomposeMode
+    const abortController = new AbortController()
 
-      const decoder = new TextDecoder()
-      
-      while (true) {
-        const { done, value } = await reader.read()
-        
-        if (done) {
-          break
-        }
-        
-        const chunk = decoder.decode(value)
-        const lines = chunk.split('\n')
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.substring(6))
-              const currentState = get()
-              
-              if (data.type === 'update' && data.treeData) {
-                // 更新树数据
-                const { nodeWidths } = get()
-                const { nodes, edges } = convertTreeToFlowData(data.treeData, nodeWidths)
-                set({ 
-                  treeData: data.treeData,
-                  nodes,
-                  edges,
-                  decomposingProgress: data.progress || currentState.decomposingProgress,
-                  decomposingMessage: data.message || currentState.decomposingMessage,
-                  isNewDecomposition: false // 标记为非新分解
-                })
-                // 自动保存：当节点更新时（更新当前会话）
-                const state = get()
-                if (state.autoSaveCallback) {
-                  state.autoSaveCallback()
-                }
-              } else if (data.type === 'progress') {
-                // 只更新进度
-                set({ 
-                  decomposingProgress: data.progress || currentState.decomposingProgress,
-                  decomposingMessage: data.message || currentState.decomposingMessage
-                })
-              } else if (data.type === 'complete') {
-                // 分解完成
-                if (data.treeData) {
-                  const { nodeWidths } = get()
-                  const { nodes, edges } = convertTreeToFlowData(data.treeData, nodeWidths)
-                  set({ 
-                    treeData: data.treeData,
-                    nodes,
-                    edges,
-                    isDecomposing: false,
-                    decomposingProgress: 100,
-                    decomposingMessage: data.message || '分解完成',
-                    currentAbortController: null,
-                    isNewDecomposition: false
-                  })
-                  // 自动保存：当分解完成时（完成当前会话）
-                  const state = get()
-                  if (state.autoSaveCallback) {
-                    state.autoSaveCallback()
-                  }
-                } else {
-                  set({ 
-                    isDecomposing: false,
-                    decomposingProgress: 100,
-                    decomposingMessage: data.message || '分解完成',
-                    currentAbortController: null,
-                    isNewDecomposition: false
-                  })
-                }
-              } else if (data.type === 'terminated') {
-                // 分解被终止
-                if (data.treeData) {
-                  const { nodeWidths } = get()
-                  const { nodes, edges } = convertTreeToFlowData(data.treeData, nodeWidths)
-                  set({ 
-                    treeData: data.treeData,
-                    nodes,
-                    edges,
-                    isDecomposing: false,
-                    decomposingMessage: data.message || '分解已终止',
-                    currentAbortController: null,
-                    isNewDecomposition: true
-                  })
-                } else {
-                  set({ 
-                    isDecomposing: false,
-                    decomposingMessage: data.message || '分解已终止',
-                    currentAbortController: null,
-                    isNewDecomposition: true
-                  })
-                }
-              } else if (data.type === 'error') {
-                // 分解出错
-                set({ 
-                  isDecomposing: false,
-                  decomposingProgress: 0,
-                  decomposingMessage: data.error || '分解过程中发生错误',
-                  currentAbortController: null,
-                  isNewDecomposition: true
-                })
-              }
-            } catch (parseError) {
-              console.error('解析流数据失败:', parseError)
-            }
-          }
-        }
-      }
-    } catch (error) {
-      // 如果是用户主动取消，不显示错误信息
-      if (error instanceof Error && error.name === 'AbortError') {
-        console.log('分解过程被用户终止')
-        set({ 
-          isDecomposing: false,
-          decomposingMessage: '分解已终止',
-          currentAbortController: null,
-          isNewDecomposition: true
-        })
-        return
-      }
-      
-      console.error('流式分解失败:', error)
-      set({ 
-        isDecomposing: false,
-        decomposingProgress: 0,
-        decomposingMessage: `分解失败: ${error instanceof Error ? error.message : '未知错误'}`,
-        currentAbortController: null,
-        isNewDecomposition: true
-      })
-      throw error
-    }
+    set({
+      isDecomposing: true,
+      decomposingProgress: 0,
+      decomposingMessage: '准备继续分解...',
+      decomposingUsage: null,
+      currentAbortController: abortController,
+      currentRunId: null,
+      decomposeMode: mode
+    })
+
+    await streamTreeDecomposition(set, get, '/api/resume-decomposition', { tree: treeData, mode, language: outputLanguage, strategy: traversalStrategy, childLimits: childLimits ?? undefined, approvalMode, ...options }, abortController)
   },
 
   // 终止分解过程
   terminateDecomposition: () => {
-    const { currentAbortController } = get()
+    const { currentAbortController, currentRunId } = get()
     
+    // 先通知后端终止本次运行：事件流断开本身只会让服务端等待续连
+    if (currentRunId) {
+      requestRunTermination(currentRunId)
+    }
+
     if (currentAbortController) {
       console.log('正在终止分解过程...')
       currentAbortController.abort()
     }
     
-    // 同时调用后端终止方法
-    fetch('/api/terminate-decomposition', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      }
-    }).catch(error => {
-      console.warn('调用后端终止方法失败:', error)
-    })
-    
+    // 事件流仍在读取时由其取消处理结束运行状态：先移除预览子项，再清除 isDecomposing
+    if (currentAbortController) {
+      set({ decomposingMessage: '正在终止分解...' })
+      return
+    }
+
     set({ 
       isDecomposing: false,
       decomposingMessage: '正在终止分解...',
       currentAbortController: null,
+      currentRunId: null,
       isNewDecomposition: true
     })
   },
   
+  // 提交对分解结果的审批，后续结果经由当前运行的事件流推送
+  respondToApproval: async (nodeId: string, decision: ApprovalDecision) => {
+    const { currentRunId } = get()
+    if (!currentRunId) {
+      throw new Error('No decomposition is running')
+    }
+
+    const response = await fetch('/api/approve-decomposition', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ runId: currentRunId, nodeId, ...decision })
+    })
+    const data: { error?: string } = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Approval failed')
+    }
+
+    set(state => ({ pendingApprovals: state.pendingApprovals.filter(a => a.nodeId !== nodeId) }))
+  },
+
   addNode: (node) => {
     const { nodes } = get()
     set({ nodes: [...nodes, node] })
@@ -398,238 +674,89 @@ export const useFlowStore = create<FlowState>((set, get) => ({
     }
   },
 
-  // 从指定节点重新分解 - 使用流式处理
+  // 从指定节点重新分解 - 服务端在完整树的上下文中分解该节点，流式返回其子树
   redecomposeFromNode: async (nodeId: string, content: string, mode?: DecomposeMode) => {
-    const { treeData, decomposeMode: currentMode, currentAbortController } = get()
+    const { treeData, decomposeMode: currentMode, outputLanguage, traversalStrategy, childLimits, approvalMode, currentAbortController, currentRunId } = get()
     if (!treeData) return
     
     const useMode = mode || currentMode // 使用传入的模式或当前模式
     
-    // 取消之前的分解任务
+    // 取消之前的分解任务，并让服务端立即停止该运行
+    if (currentRunId) {
+      requestRunTermination(currentRunId)
+    }
     if (currentAbortController) {
       currentAbortController.abort()
     }
     
     // 创建新的 AbortController
     const abortController = new AbortController()
-    
-    try {
-      // 标记进入分解中并提示
-      set({
-        isDecomposing: true,
-        decomposingProgress: 0,
-        decomposingMessage: '正在重新分解当前节点...',
-        currentAbortController: abortController
-      })
-
-      // 先清空该节点的子节点，给出即时的视觉反馈
-      const clearChildren = (treeNode: TreeNode): TreeNode => {
-        if (treeNode.id === nodeId) {
-          return { ...treeNode, children: [] }
-        }
-        if (treeNode.children) {
-          return { ...treeNode, children: treeNode.children.map(clearChildren) }
-        }
-        return treeNode
-      }
-
-      const interimTreeData = clearChildren(treeData)
-      const { nodeWidths } = get()
-      const interimFlow = convertTreeToFlowData(interimTreeData, nodeWidths)
-      set({
-        treeData: interimTreeData,
-        nodes: interimFlow.nodes,
-        edges: interimFlow.edges,
-      })
-      // 保存中间状态，避免刷新丢失
-      const interimState = get()
-      if (interimState.autoSaveCallback) {
-        interimState.autoSaveCallback()
-      }
-
-      // 使用流式 API 进行重新分解
-      const response = await fetch('/api/decompose-stream', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          text: content,
-          mode: useMode
-        }),
-        signal: abortController.signal
-      })
-
-      if (!response.ok) {
-        throw new Error('重新分解失败')
-      }
 
-      const reader = response.body?.getReader()
-      if (!reader) {
-        throw new Error('无法获取响应流')
-      }
+    // 标记进入分解中并提示
+    set({
+      isDecomposing: true,
+      decomposingProgress: 0,
+      decomposingMessage: '正在重新分解当前节点...',
+      decomposingUsage: null,
+      currentAbortController: abortController,
+      currentRunId: null,
+      pendingApprovals: []
+    })
 
-      const decoder = new TextDecoder()
-      
-      while (true) {
-        const { done, value } = await reader.read()
-        
-        if (done) {
-          break
-        }
-        
-        const chunk = decoder.decode(value)
-        const lines = chunk.split('\n')
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.substring(6))
-              const currentState = get()
-              
-              if (data.type === 'update' && data.treeData) {
-                // 用新的分解结果替换指定节点的子树，并重映射子树ID避免冲突
-                const subtreeIdPrefix = `${nodeId}__${Date.now()}__`
-                const remapChildIds = (node: TreeNode): TreeNode => ({
-                  ...node,
-                  id: `${subtreeIdPrefix}${node.id}`,
-                  children: node.children ? node.children.map(remapChildIds) : null
-                })
-                const replaceNodeSubtree = (treeNode: TreeNode): TreeNode => {
-                  if (treeNode.id === nodeId) {
-                    const mappedChildren = (data.treeData.children || []).map(remapChildIds)
-                    return { ...treeNode, children: mappedChildren }
-                  }
-                  if (treeNode.children) {
-                    return {
-                      ...treeNode,
-                      children: treeNode.children.map(replaceNodeSubtree)
-                    }
-                  }
-                  return treeNode
-                }
-
-                const updatedTreeData = replaceNodeSubtree(currentState.treeData!)
-                const { nodeWidths } = get()
-                const { nodes, edges } = convertTreeToFlowData(updatedTreeData, nodeWidths)
-                set({ 
-                  treeData: updatedTreeData,
-                  nodes,
-                  edges,
-                  decomposingProgress: data.progress || currentState.decomposingProgress,
-                  decomposingMessage: data.message || currentState.decomposingMessage
-                })
-                // 自动保存更新
-                const state = get()
-                if (state.autoSaveCallback) {
-                  state.autoSaveCallback()
-                }
-              } else if (data.type === 'progress') {
-                // 只更新进度
-                set({ 
-                  decomposingProgress: data.progress || currentState.decomposingProgress,
-                  decomposingMessage: data.message || currentState.decomposingMessage
-                })
-              } else if (data.type === 'complete') {
-                // 分解完成
-                if (data.treeData) {
-                  const subtreeIdPrefix = `${nodeId}__${Date.now()}__`
-                  const remapChildIds = (node: TreeNode): TreeNode => ({
-                    ...node,
-                    id: `${subtreeIdPrefix}${node.id}`,
-                    children: node.children ? node.children.map(remapChildIds) : null
-                  })
-                  const replaceNodeSubtree = (treeNode: TreeNode): TreeNode => {
-                    if (treeNode.id === nodeId) {
-                      const mappedChildren = (data.treeData.children || []).map(remapChildIds)
-                      return { ...treeNode, children: mappedChildren }
-                    }
-                    if (treeNode.children) {
-                      return {
-                        ...treeNode,
-                        children: treeNode.children.map(replaceNodeSubtree)
-                      }
-                    }
-                    return treeNode
-                  }
-
-                  const finalTreeData = replaceNodeSubtree(currentState.treeData!)
-                  const { nodeWidths } = get()
-                  const { nodes, edges } = convertTreeToFlowData(finalTreeData, nodeWidths)
-                  set({ 
-                    treeData: finalTreeData,
-                    nodes,
-                    edges,
-                    isDecomposing: false,
-                    decomposingProgress: 100,
-                    decomposingMessage: data.message || '重新分解完成',
-                    currentAbortController: null
-                  })
-                  // 完成后保存
-                  const state = get()
-                  if (state.autoSaveCallback) {
-                    state.autoSaveCallback()
-                  }
-                } else {
-                  set({ 
-                    isDecomposing: false,
-                    decomposingProgress: 100,
-                    decomposingMessage: data.message || '重新分解完成',
-                    currentAbortController: null
-                  })
-                }
-              } else if (data.type === 'terminated') {
-                // 分解被终止
-                set({ 
-                  isDecomposing: false,
-                  decomposingMessage: data.message || '重新分解已终止',
-                  currentAbortController: null
-                })
-              } else if (data.type === 'error') {
-                // 分解出错
-                set({ 
-                  isDecomposing: false,
-                  decomposingProgress: 0,
-                  decomposingMessage: data.error || '重新分解过程中发生错误',
-                  currentAbortController: null
-                })
-              }
-            } catch (parseError) {
-              console.error('解析重新分解流数据失败:', parseError)
-            }
-          }
+    // 先清空该节点的子节点，给出即时的视觉反馈；使用编辑器中的内容，失败节点重试时清除失败状态
+    const clearChildren = (treeNode: TreeNode): TreeNode => {
+      if (treeNode.id === nodeId) {
+        return {
+          ...treeNode,
+          content,
+          children: [],
+          status: treeNode.status === 'failed' ? 'pending' : treeNode.status,
+          error: undefined
         }
       }
-    } catch (error) {
-      // 如果是用户主动取消，不显示错误信息
-      if (error instanceof Error && error.name === 'AbortError') {
-        console.log('重新分解过程被用户终止')
-        set({ 
-          isDecomposing: false,
-          decomposingMessage: '重新分解已终止',
-          currentAbortController: null
-        })
-        return
+      if (treeNode.children) {
+        return { ...treeNode, children: treeNode.children.map(clearChildren) }
       }
-      
-      console.error('流式重新分解失败:', error)
-      set({
-        isDecomposing: false,
-        decomposingProgress: 0,
-        decomposingMessage: `重新分解失败: ${error instanceof Error ? error.message : '未知错误'}`,
-        currentAbortController: null
-      })
-      throw error
+      return treeNode
     }
+
+    // 被取消的运行不再清理自己的预览子项（以免误删新运行的状态），在这里一并移除
+    const interimTreeData = clearChildren(currentAbortController ? stripPreviewChildren(treeData) : treeData)
+    const { nodeWidths } = get()
+    const interimFlow = convertTreeToFlowData(interimTreeData, nodeWidths)
+    set({
+      treeData: interimTreeData,
+      nodes: interimFlow.nodes,
+      edges: interimFlow.edges,
+    })
+    // 保存中间状态，避免刷新丢失
+    const interimState = get()
+    if (interimState.autoSaveCallback) {
+      interimState.autoSaveCallback()
+    }
+
+    // 发送完整的树，服务端据此获得原始输入与祖先上下文
+    await streamTreeDecomposition(
+      set,
+      get,
+      '/api/redecompose-stream',
+      // 重新分解是用户明确要求的新结果，跳过响应缓存，否则未修改的节点会得到与上次相同的缓存结果
+      { tree: interimTreeData, nodeId, mode: useMode, language: outputLanguage, strategy: traversalStrategy, childLimits: childLimits ?? undefined, approvalMode, bypassCache: true },
+      abortController,
+      nodeId
+    )
   },
 
-  loadState: (state: { nodes: FlowNode[], edges: FlowEdge[], treeData: TreeNode | null, selectedNode?: FlowNode | null, nodeWidths?: Record<string, number> }) => {
+  loadState: (state: { nodes: FlowNode[], edges: FlowEdge[], treeData: TreeNode | null, selectedNode?: FlowNode | null, nodeWidths?: Record<string, number>, outputLanguage?: OutputLanguage }) => {
     set({
       nodes: state.nodes,
       edges: state.edges,
       treeData: state.treeData,
       selectedNode: state.selectedNode || null,
       nodeWidths: state.nodeWidths || {},
+      // 旧的历史记录没有保存输出语言，回退到根节点分解时记录的语言
+      outputLanguage: state.outputLanguage ?? state.treeData?.decomposition?.language ?? DEFAULT_OUTPUT_LANGUAGE,
+      review: null,
     })
   },
 
@@ -644,15 +771,171 @@ export const useFlowStore = create<FlowState>((set, get) => ({
       isDecomposing: false,
       decomposingProgress: 0,
       decomposingMessage: '',
+      decomposingUsage: null,
       currentAbortController: null,
+      currentRunId: null,
       isNewDecomposition: true,
-      decomposeMode: 'concept', // 重置为默认模式
+      decomposeMode: DEFAULT_MODE_ID, // 重置为默认模式
+      outputLanguage: DEFAULT_OUTPUT_LANGUAGE,
+      traversalStrategy: DEFAULT_TRAVERSAL_STRATEGY,
+      childLimits: null,
+      approvalMode: false,
+      pendingApprovals: [],
       collapsedNodeIds: new Set<string>(),
       maxVisibleLevel: DEFAULT_LAYOUT_CONFIG.defaultExpandedLevels,
-      layoutConfig: DEFAULT_LAYOUT_CONFIG
+      layoutConfig: DEFAULT_LAYOUT_CONFIG,
+      answeringNodeIds: new Set<string>(),
+      review: null,
+      isReviewing: false
     })
   },
 
+  // 为叶子节点生成解答：以祖先路径为上下文，结果保存在节点的 answer 字段
+  answerNode: async (nodeId: string) => {
+    const { treeData, decomposeMode, outputLanguage, answeringNodeIds } = get()
+    if (!treeData || answeringNodeIds.has(nodeId)) return
+
+    // 已有解答时为重新生成，跳过响应缓存
+    const regenerate = Boolean(findNodeInTree(treeData, nodeId)?.answer)
+
+    set({ answeringNodeIds: new Set(answeringNodeIds).add(nodeId) })
+    try {
+      const response = await fetch('/api/answer-node', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(withCustomModes({
+          tree: treeData,
+          nodeId,
+          mode: treeData.decomposition?.mode ?? decomposeMode,
+          language: outputLanguage,
+          bypassCache: regenerate
+        }))
+      })
+      const data: { answer?: NodeAnswer; usage?: TokenUsage; error?: string } = await response.json()
+      if (!response.ok || !data.answer) {
+        throw new Error(data.error || '生成解答失败')
+      }
+
+      // 请求期间树可能已被修改，以最新的树为准；节点已被删除时丢弃结果
+      const latestTreeData = get().treeData
+      const node = latestTreeData && findNodeInTree(latestTreeData, nodeId)
+      if (!latestTreeData || !node) return
+
+      const updatedTreeData = replaceSubtree(latestTreeData, nodeId, {
+        ...node,
+        answer: data.answer,
+        usage: addUsage(node.usage, data.usage)
+      })
+      const { nodeWidths, selectedNode } = get()
+      const { nodes, edges } = convertTreeToFlowData(updatedTreeData, nodeWidths)
+      set({
+        treeData: updatedTreeData,
+        nodes,
+        edges,
+        // 选中节点保存的是树节点快照，需要同步为更新后的节点
+        selectedNode: selectedNode?.id === nodeId
+          ? nodes.find(n => n.id === nodeId) ?? selectedNode
+          : selectedNode
+      })
+
+      const state = get()
+      if (state.autoSaveCallback) {
+        state.autoSaveCallback()
+      }
+    } finally {
+      const remaining = new Set(get().answeringNodeIds)
+      remaining.delete(nodeId)
+      set({ answeringNodeIds: remaining })
+    }
+  },
+
+  // 切换节点置顶：最佳优先遍历时优先展开置顶节点所在的分支
+  toggleNodePinned: (nodeId: string) => {
+    const { treeData, nodeWidths, selectedNode } = get()
+    const node = treeData && findNodeInTree(treeData, nodeId)
+    if (!treeData || !node) return
+
+    const updatedTreeData = replaceSubtree(treeData, nodeId, { ...node, pinned: !node.pinned })
+    const { nodes, edges } = convertTreeToFlowData(updatedTreeData, nodeWidths)
+    set({
+      treeData: updatedTreeData,
+      nodes,
+      edges,
+      selectedNode: selectedNode?.id === nodeId
+        ? nodes.find(n => n.id === nodeId) ?? selectedNode
+        : selectedNode
+    })
+
+    const state = get()
+    if (state.autoSaveCallback) {
+      state.autoSaveCallback()
+    }
+  },
+
+  // 审阅当前树：审阅 Agent 报告问题并给出补丁，结果保存在 review 中供用户逐条处理
+  reviewTree: async () => {
+    const { treeData, decomposeMode, outputLanguage } = get()
+    if (!treeData) return
+
+    set({ isReviewing: true })
+    try {
+      const response = await fetch('/api/review-tree', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(withCustomModes({
+          tree: treeData,
+          mode: treeData.decomposition?.mode ?? decomposeMode,
+          language: outputLanguage
+        }))
+      })
+      const data: { review?: TreeReview; error?: string } = await response.json()
+      if (!response.ok || !data.review) {
+        throw new Error(data.error || '审阅失败')
+      }
+      set({ review: data.review })
+    } finally {
+      set({ isReviewing: false })
+    }
+  },
+
+  // 接受审阅问题：应用其补丁，并从审阅结果中移除该问题
+  acceptReviewIssue: (issueId: string) => {
+    const { treeData, review, selectedNode, nodeWidths } = get()
+    const issue = review?.issues.find(i => i.id === issueId)
+    if (!treeData || !review || !issue?.patch) return
+
+    // 补丁无效（如节点已被之前的修改移除）时抛出错误，由调用方提示
+    const updatedTreeData = applyTreePatch(treeData, issue.patch)
+    const { nodes, edges } = convertTreeToFlowData(updatedTreeData, nodeWidths)
+    const stillExists = selectedNode && nodes.some(n => n.id === selectedNode.id)
+    set({
+      treeData: updatedTreeData,
+      nodes,
+      edges,
+      selectedNode: stillExists ? selectedNode : null,
+      review: { ...review, issues: review.issues.filter(i => i.id !== issueId) }
+    })
+
+    const state = get()
+    if (state.autoSaveCallback) {
+      state.autoSaveCallback()
+    }
+  },
+
+  dismissReviewIssue: (issueId: string) => {
+    const { review } = get()
+    if (!review) return
+    set({ review: { ...review, issues: review.issues.filter(i => i.id !== issueId) } })
+  },
+
+  clearReview: () => {
+    set({ review: null })
+  },
+
   // 记录节点真实宽度，并据此刷新布局
   setNodeWidths: (widths: Record<string, number>) => {
     set((state) => ({ nodeWidths: { ...state.nodeWidths, ...widths } }))
@@ -672,6 +955,11 @@ export const useFlowStore = create<FlowState>((set, get) => ({
     set({ decomposeMode: mode })
   },
 
+  // 新增：设置当前项目的输出语言
+  setOutputLanguage: (language: OutputLanguage) => {
+    set({ outputLanguage: language })
+  },
+
   // 新增：切换节点折叠状态
   toggleNodeCollapsed: (nodeId: string) => {
     set((state) => {
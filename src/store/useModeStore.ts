@@ -0,0 +1,54 @@
+import { create } from 'zustand'
+import { DecomposeModeDefinition } from '@/types'
+
+const CUSTOM_MODES_STORAGE_KEY = 'fissio-custom-modes'
+
+interface ModeState {
+  customModes: DecomposeModeDefinition[]
+  loadCustomModes: () => void
+  saveCustomMode: (mode: DecomposeModeDefinition) => void
+  deleteCustomMode: (modeId: string) => void
+}
+
+// 将自定义模式写入 localStorage
+function persistCustomModes(customModes: DecomposeModeDefinition[]) {
+  try {
+    localStorage.setItem(CUSTOM_MODES_STORAGE_KEY, JSON.stringify(customModes))
+  } catch (error) {
+    console.error('保存自定义模式失败:', error)
+  }
+}
+
+// 用户自定义的分解模式，保存在本地浏览器中；内置模式见 @/lib/modes
+export const useModeStore = create<ModeState>((set, get) => ({
+  customModes: [],
+
+  // 从 localStorage 加载自定义模式
+  loadCustomModes: () => {
+    try {
+      const stored = localStorage.getItem(CUSTOM_MODES_STORAGE_KEY)
+      set({ customModes: stored ? JSON.parse(stored) : [] })
+    } catch (error) {
+      console.error('加载自定义模式失败:', error)
+      set({ customModes: [] })
+    }
+  },
+
+  // 新增或更新（按 ID）自定义模式
+  saveCustomMode: (mode: DecomposeModeDefinition) => {
+    const { customModes } = get()
+    const customMode = { ...mode, builtin: false }
+    const exists = customModes.some(m => m.id === mode.id)
+    const next = exists
+      ? customModes.map(m => (m.id === mode.id ? customMode : m))
+      : [...customModes, customMode]
+    persistCustomModes(next)
+    set({ customModes: next })
+  },
+
+  deleteCustomMode: (modeId: string) => {
+    const next = get().customModes.filter(m => m.id !== modeId)
+    persistCustomModes(next)
+    set({ customModes: next })
+  },
+}))
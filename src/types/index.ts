@@ -1,5 +1,34 @@
-// 分解模式类型
-export type DecomposeMode = 'task' | 'concept';
+// 分解模式类型：模式注册表中的模式 ID（内置模式如 task、concept，或用户自定义模式）
+export type DecomposeMode = string;
+
+// 模式的示例输入
+export interface ModeExample {
+  text: string;
+  icon?: string; // lucide 图标名称
+}
+
+// 输出语言：语言代码（如 en、zh、ja）
+export type OutputLanguage = string;
+
+// 模式的提示词
+export interface ModePrompts {
+  root: string; // 根分解提示词
+  sub: string; // 子项分解提示词
+  judgement?: string; // 判断提示词，未设置时使用通用判断提示词
+  answer?: string; // 解答提示词，未设置时使用通用解答提示词
+}
+
+// 分解模式定义：每个模式有自己的根分解、子项分解与判断提示词
+export interface DecomposeModeDefinition {
+  id: string;
+  label: string;
+  description: string;
+  icon: string; // lucide 图标名称
+  examples: ModeExample[];
+  prompts: ModePrompts; // 默认（英文）提示词；自定义模式为用户填写的提示词
+  translations?: { zh?: ModePrompts }; // 其他提示词集语言的提示词（内置模式）
+  builtin?: boolean; // 是否为内置模式
+}
 
 // 基础树节点接口
 export interface TreeNode {
@@ -8,11 +37,85 @@ export interface TreeNode {
   children: TreeNode[] | null;
   expanded: boolean;
   // 新增：节点状态
-  status?: 'pending' | 'processing' | 'completed' | 'need_decomposition' | 'can_answer';
+  status?: 'pending' | 'processing' | 'proposed' | 'completed' | 'need_decomposition' | 'can_answer' | 'limit_reached' | 'failed';
   // 新增：是否为叶子节点
   isLeaf?: boolean;
   // 新增：判断结果
   canDirectlyAnswer?: boolean;
+  // 新增：因运行预算停止处理时触发的限制
+  limitReached?: BudgetLimit;
+  // 新增：判断与分解该节点所消耗的 token 用量
+  usage?: TokenUsage;
+  // 新增：处理失败（status 为 failed）时的错误信息
+  error?: string;
+  // 新增：判断 Agent 对该节点的判断记录（分解后的父节点同样保留）
+  judgement?: NodeJudgement;
+  // 新增：该节点被分解时的分解依据
+  decomposition?: NodeDecomposition;
+  // 新增：与兄弟分支中内容相近的节点
+  overlaps?: NodeOverlap[];
+  // 新增：可直接回答的叶子节点的解答
+  answer?: NodeAnswer;
+  // 新增：用户置顶的节点，最佳优先遍历时优先展开其所在分支
+  pinned?: boolean;
+}
+
+// 节点上保存的解答
+export interface NodeAnswer {
+  content: string; // Markdown 格式的解答
+  model: string; // 生成解答的模型
+  provider?: string; // 提供服务的提供商
+  language?: OutputLanguage; // 生成时要求的输出语言
+}
+
+// 节点与兄弟分支中相近节点的重叠记录
+export interface NodeOverlap {
+  nodeId: string;
+  content: string;
+  similarity: number; // 0-1 之间的内容相似度
+}
+
+// 子项分解时提供给模型的树上下文
+export interface DecompositionContext {
+  ancestors: string[]; // 从根节点到父节点的内容
+  siblings: string[]; // 同一父节点下其他子节点的内容
+}
+
+// 节点上保存的判断记录
+export interface NodeJudgement {
+  canDirectlyAnswer: boolean;
+  reasoning: string;
+  confidence: number; // 0-1 之间的置信度
+  model: string; // 做出判断的模型
+  provider?: string; // 提供服务的提供商
+  cached?: boolean; // 结果来自响应缓存
+}
+
+// 节点上保存的分解记录
+export interface NodeDecomposition {
+  reasoning: string | null; // 模型对分解方式的说明
+  mode: DecomposeMode;
+  promptVariant: string; // 使用的提示词变体，如 concept-sub
+  language?: OutputLanguage; // 分解时要求的输出语言
+  mergedDuplicates?: string[]; // 与兄弟分支完全重复而被合并的子节点内容
+  servedBy?: ServedBy; // 实际完成分解的提供商与模型
+  regrouped?: boolean; // 子项超出数量上限，已归入合成的中间节点
+  cached?: boolean; // 结果来自响应缓存
+}
+
+// 实际完成一次调用的提供商与模型（配置了故障转移时可能不是首选项）
+export interface ServedBy {
+  provider: string;
+  model: string;
+}
+
+// LLM 调用的 token 用量与费用估算
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number; // 估算费用（美元），未配置价格的模型计为 0
+  calls: number; // 统计的调用次数
 }
 
 // AI Agent 响应接口
@@ -28,6 +131,11 @@ export interface DecomposeResponse {
   root: AITreeNode;
   reasoning: string | null;
   mode?: DecomposeMode; // 新增：分解模式
+  usage?: TokenUsage; // 新增：本次调用的 token 用量
+  promptVariant?: string; // 使用的提示词变体
+  regrouped?: boolean; // 子项超出数量上限，已归入合成的中间节点
+  servedBy?: ServedBy; // 实际完成本次调用的提供商与模型
+  cached?: boolean; // 结果来自响应缓存，未产生新的调用
 }
 
 // 判断响应接口
@@ -35,6 +143,48 @@ export interface JudgementResponse {
   canDirectlyAnswer: boolean;
   reasoning: string;
   confidence: number; // 0-1 之间的置信度
+  usage?: TokenUsage; // 本次调用的 token 用量
+  model?: string; // 做出判断的模型
+  servedBy?: ServedBy; // 实际完成本次调用的提供商与模型
+  cached?: boolean; // 结果来自响应缓存，未产生新的调用
+}
+
+// 解答响应接口
+export interface AnswerResponse {
+  answer: string; // Markdown 格式的解答
+  usage?: TokenUsage; // 本次调用的 token 用量
+  model?: string; // 生成解答的模型
+  servedBy?: ServedBy; // 实际完成本次调用的提供商与模型
+  cached?: boolean; // 结果来自响应缓存，未产生新的调用
+}
+
+// 树补丁：审阅建议对树的一处修改，用户逐条接受后应用
+export type TreePatch =
+  | { op: 'add_child'; parentId: string; content: string }
+  | { op: 'remove_node'; nodeId: string }
+  | { op: 'move_node'; nodeId: string; newParentId: string }
+  | { op: 'update_content'; nodeId: string; content: string };
+
+// 审阅发现的问题类型：缺失分支、兄弟重叠、层级错误、违反命名规则
+export type ReviewIssueKind = 'missing_branch' | 'overlap' | 'wrong_nesting' | 'rule_violation';
+
+// 审阅发现的一个问题
+export interface ReviewIssue {
+  id: string;
+  kind: ReviewIssueKind;
+  nodeIds: string[]; // 涉及的节点
+  description: string;
+  patch: TreePatch | null; // 建议的修改，无法用补丁表达时为 null
+}
+
+// 审阅 Agent 对整棵树的审阅结果
+export interface TreeReview {
+  summary: string;
+  issues: ReviewIssue[];
+  usage?: TokenUsage;
+  model?: string;
+  servedBy?: ServedBy; // 实际完成审阅的提供商与模型
+  cached?: boolean; // 结果来自响应缓存
 }
 
 // 工作流状态接口
@@ -45,19 +195,123 @@ export interface WorkflowState {
   totalNodes: number;
   processedNodes: number;
   isComplete: boolean;
+  usage: TokenUsage; // 本次运行累计的 token 用量
+  cacheHits: number; // 命中响应缓存的调用次数
+}
+
+// 运行预算：限制单次分解的规模、调用次数与耗时
+export interface WorkflowBudget {
+  maxDepth?: number; // 最大树深度（根节点为 0）
+  maxNodes?: number; // 最大节点总数
+  maxLLMCalls?: number; // 最大 LLM 调用次数
+  timeoutMs?: number; // 墙钟超时（毫秒）
+}
+
+// 单次分解的子节点数量范围，未设置的一端表示不限制
+export interface ChildCountRange {
+  min?: number;
+  max?: number;
+}
+
+// 子节点数量超出上限时的处理：要求模型重新分解，或将多出的子节点归入合成的中间节点
+export type ChildOverflowPolicy = 'reask' | 'regroup';
+
+// 子节点数量限制：默认范围，可按被分解节点的深度（根节点为 0）覆盖
+export interface ChildCountLimits extends ChildCountRange {
+  byDepth?: Record<number, ChildCountRange>;
+  overflow?: ChildOverflowPolicy; // 默认 reask
+}
+
+// 叶子节点的遍历策略：广度优先逐层处理、深度优先先完成一个分支、最佳优先按优先级选择
+export type TraversalStrategy = 'breadth' | 'depth' | 'best';
+
+// 审批模式下对一次分解结果的处理：接受、按编辑后的子项接受、拒绝（该节点不再分解）、重新生成
+export type ApprovalAction = 'accept' | 'edit' | 'reject' | 'regenerate';
+
+// 用户对一次分解结果的审批决定
+export interface ApprovalDecision {
+  action: ApprovalAction;
+  children?: string[]; // edit 时编辑后的子项内容
+}
+
+// 等待用户审批的分解结果
+export interface PendingApproval {
+  nodeId: string;
+  children: TreeNode[]; // 提议的子节点，在画布上以虚影显示
+  reasoning: string | null;
+}
+
+// 结束运行或停止节点处理的预算限制类型
+export type BudgetLimit = 'max_depth' | 'max_nodes' | 'max_llm_calls' | 'timeout';
+
+// 发起模型请求前等待的闸门：暂停期间挂起新的请求，恢复后放行
+export interface RequestGate {
+  wait(signal?: AbortSignal): Promise<void>;
+}
+
+// 工作流运行选项
+export interface WorkflowOptions {
+  concurrency?: number; // 同一轮迭代中并发处理的叶子节点数上限
+  budget?: WorkflowBudget; // 运行预算
+  customModes?: DecomposeModeDefinition[]; // 请求中携带的自定义模式定义
+  language?: OutputLanguage; // 节点内容的输出语言
+  answerLeaves?: boolean; // 分解完成后为可直接回答的叶子节点生成解答
+  bypassCache?: boolean; // 跳过响应缓存，所有调用都重新请求模型
+  strategy?: TraversalStrategy; // 叶子节点的遍历策略，默认广度优先
+  childLimits?: ChildCountLimits; // 每次分解的子节点数量限制
+  approvalMode?: boolean; // 每次分解后暂停，等待用户审批提议的子节点
+  signal?: AbortSignal; // 服务端使用：请求的取消信号，触发时终止运行并中止进行中的请求
+  requestGate?: RequestGate; // 服务端使用：客户端连接断开期间挂起新的模型请求，续连后放行
 }
 
 // 工作流事件类型
 export type WorkflowEvent = 
-  | { type: 'start'; message: string; state: WorkflowState }
+  | { type: 'start'; runId: string; message: string; state: WorkflowState }
   | { type: 'decompose_node'; nodeId: string; message: string; state: WorkflowState }
-  | { type: 'judge_node'; nodeId: string; result: boolean; message: string; state: WorkflowState }
-  | { type: 'update_tree'; tree: TreeNode; message: string; state: WorkflowState }
+  | { type: 'judge_node'; nodeId: string; result: boolean; cached?: boolean; servedBy?: ServedBy; message: string; state: WorkflowState }
+  | { type: 'update_tree'; tree: TreeNode; cached?: boolean; servedBy?: ServedBy; message: string; state: WorkflowState }
   | { type: 'progress'; progress: number; message: string; state: WorkflowState }
-  | { type: 'complete'; finalTree: TreeNode; message: string; state: WorkflowState }
+  | { type: 'limit_reached'; nodeId: string; limit: BudgetLimit; message: string; state: WorkflowState }
+  | { type: 'node_failed'; nodeId: string; error: string; message: string; state: WorkflowState }
+  | { type: 'answer_node'; nodeId: string; message: string; state: WorkflowState }
+  | { type: 'partial_update'; nodeId: string; children: TreeNode[]; message: string; state: WorkflowState }
+  | { type: 'approval_required'; nodeId: string; children: TreeNode[]; reasoning: string | null; message: string; state: WorkflowState }
+  | { type: 'complete'; finalTree: TreeNode; message: string; state: WorkflowState; limitReached: BudgetLimit | null }
   | { type: 'terminated'; finalTree: TreeNode; message: string; state: WorkflowState }
   | { type: 'error'; error: string };
 
+// 流式事件中的树数据：整树运行携带完整的树，子树运行携带范围节点ID与其子树
+export type StreamTreePayload = {
+  treeData?: TreeNode;
+  nodeId?: string;
+  subtree?: TreeNode | null;
+};
+
+// 流式接口发送给前端的事件（由 WorkflowEvent 转换而来）
+export type StreamEvent =
+  | { type: 'start'; runId: string; message: string; progress: number; mode: DecomposeMode }
+  | {
+      type: 'progress';
+      message: string;
+      progress: number;
+      usage?: TokenUsage;
+      nodeId?: string;
+      judgementResult?: boolean;
+      cached?: boolean;
+      servedBy?: ServedBy;
+      cacheHits?: number;
+      limit?: BudgetLimit; // 节点因预算停止
+      failed?: boolean; // 节点处理失败
+      error?: string;
+    }
+  | ({ type: 'update'; message: string; cached?: boolean; servedBy?: ServedBy; progress: number; usage?: TokenUsage; cacheHits?: number } & StreamTreePayload)
+  | { type: 'partial_update'; nodeId: string; children: TreeNode[]; message: string; progress: number; usage?: TokenUsage }
+  | { type: 'approval_required'; nodeId: string; children: TreeNode[]; reasoning: string | null; message: string; progress: number; usage?: TokenUsage }
+  | ({ type: 'complete'; message: string; progress: number; limitReached: BudgetLimit | null; usage?: TokenUsage; cacheHits?: number; state?: WorkflowState } & StreamTreePayload)
+  | ({ type: 'terminated'; message: string; progress: number; usage?: TokenUsage; cacheHits?: number; state?: WorkflowState } & StreamTreePayload)
+  | { type: 'error'; error: string }
+  | { type: 'heartbeat' }; // 连接保活，不编号
+
 // React Flow 节点数据类型
 export interface FlowNode {
   id: string
@@ -103,20 +357,31 @@ export interface FlowState {
   isDecomposing: boolean
   decomposingProgress: number
   decomposingMessage: string
+  decomposingUsage: TokenUsage | null // 新增：当前运行累计的 token 用量
   currentAbortController: AbortController | null
+  currentRunId: string | null // 新增：当前服务端运行ID，用于定向终止
   autoSaveCallback: (() => void) | null
   isNewDecomposition: boolean
   decomposeMode: DecomposeMode // 新增：当前分解模式
+  outputLanguage: OutputLanguage // 新增：当前项目的输出语言
+  traversalStrategy: TraversalStrategy // 新增：最近一次分解使用的遍历策略，继续与重新分解时沿用
+  childLimits: ChildCountLimits | null // 新增：最近一次分解使用的子节点数量限制，继续与重新分解时沿用
+  approvalMode: boolean // 新增：最近一次分解是否逐步审批，继续与重新分解时沿用
+  pendingApprovals: PendingApproval[] // 新增：当前运行中等待审批的分解结果
   collapsedNodeIds: Set<string> // 新增：折叠节点ID集合
   maxVisibleLevel: number // 新增：最大可见层级
   layoutConfig: LayoutConfig // 新增：布局配置
+  answeringNodeIds: Set<string> // 新增：正在生成解答的节点ID集合
+  review: TreeReview | null // 新增：最近一次审阅结果
+  isReviewing: boolean // 新增：是否正在审阅
   
   setNodes: (nodes: FlowNode[]) => void
   setEdges: (edges: FlowEdge[]) => void
   setSelectedNode: (selectedNode: FlowNode | null) => void
   setSearchQuery: (searchQuery: string) => void
   setTreeData: (treeData: TreeNode | null) => void
-  startStreamDecomposition: (inputText: string, mode?: DecomposeMode) => Promise<void>
+  startStreamDecomposition: (inputText: string, mode?: DecomposeMode, options?: WorkflowOptions) => Promise<void>
+  resumeDecomposition: (options?: WorkflowOptions) => Promise<void>
   terminateDecomposition: () => void
   addNode: (node: FlowNode) => void
   updateNode: (nodeId: string, updates: Partial<FlowNode>) => void
@@ -126,16 +391,24 @@ export interface FlowState {
   toggleNodeExpanded: (nodeId: string) => void
   updateTreeNodeContent: (nodeId: string, newContent: string) => Promise<void>
   redecomposeFromNode: (nodeId: string, content: string, mode?: DecomposeMode) => Promise<void>
-  loadState: (state: { nodes: FlowNode[], edges: FlowEdge[], treeData: TreeNode | null, selectedNode?: FlowNode | null, nodeWidths?: Record<string, number> }) => void
+  respondToApproval: (nodeId: string, decision: ApprovalDecision) => Promise<void> // 新增：提交对分解结果的审批
+  loadState: (state: { nodes: FlowNode[], edges: FlowEdge[], treeData: TreeNode | null, selectedNode?: FlowNode | null, nodeWidths?: Record<string, number>, outputLanguage?: OutputLanguage }) => void
   resetState: () => void
   setAutoSaveCallback: (callback: (() => void) | null) => void
   setDecomposeMode: (mode: DecomposeMode) => void // 新增：设置分解模式
+  setOutputLanguage: (language: OutputLanguage) => void // 新增：设置输出语言
   toggleNodeCollapsed: (nodeId: string) => void // 新增：切换节点折叠状态
   setMaxVisibleLevel: (level: number) => void // 新增：设置最大可见层级
   updateLayoutConfig: (config: Partial<LayoutConfig>) => void // 新增：更新布局配置
   getVisibleNodes: () => FlowNode[] // 新增：获取可见节点
   getVisibleEdges: () => FlowEdge[] // 新增：获取可见边
   setNodeWidths: (widths: Record<string, number>) => void // 新增：设置节点真实宽度
+  answerNode: (nodeId: string) => Promise<void> // 新增：为节点生成解答
+  toggleNodePinned: (nodeId: string) => void // 新增：切换节点置顶
+  reviewTree: () => Promise<void> // 新增：审阅当前树
+  acceptReviewIssue: (issueId: string) => void // 新增：应用审阅问题附带的补丁
+  dismissReviewIssue: (issueId: string) => void // 新增：忽略审阅问题
+  clearReview: () => void // 新增：关闭审阅结果
 } 
 
 // 历史记录相关类型
@@ -149,6 +422,7 @@ export interface HistoryItem {
     treeData: TreeNode | null
     selectedNode: FlowNode | null
     nodeWidths?: Record<string, number>
+    outputLanguage?: OutputLanguage
   }
 }
 